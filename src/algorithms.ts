@@ -6,8 +6,27 @@ import {
   secureCompareBuffer,
   verifyEd25519,
   verifyRsa,
+  verifyJws,
+  signJws,
+  importJwk,
   isTimestampValid,
+  toTimestampWindow,
 } from './utils/crypto.js';
+import {
+  computeHmacHexAsync,
+  computeHmacBase64Async,
+  constantTimeEqual,
+  toUtf8String,
+  verifyEd25519Async,
+  verifyRsaAsync,
+  verifyJwsAsync,
+  importJwkAsync,
+  base64ToBytes,
+} from './utils/webcrypto.js';
+import { failure, success } from './utils/result.js';
+import { getVerificationKeys, getVerificationKeysAsync } from './keyset.js';
+import type { JsonWebKey, KeySet } from './keyset.js';
+import type { TimestampOptions, VerificationResult } from './types.js';
 
 export type HmacAlgorithm = 'sha1' | 'sha256' | 'sha512';
 export type SignatureEncoding = 'hex' | 'base64';
@@ -21,8 +40,8 @@ export interface HmacOptions {
   prefix?: string;
 }
 
-export interface TimestampHmacOptions extends HmacOptions {
-  /** Maximum age of the webhook in seconds (default: 300) */
+export interface TimestampHmacOptions extends HmacOptions, Pick<TimestampOptions, 'maxAge' | 'maxFutureSkew' | 'clock'> {
+  /** Maximum age of the webhook in seconds, and how far its timestamp may be in the future (default: 300) */
   tolerance?: number;
   /** Format of the signed payload. Use {timestamp} and {payload} placeholders */
   format?: string;
@@ -140,10 +159,10 @@ function verifyHmacWithTimestamp(
     return false;
   }
 
-  const { tolerance = 300, format = '{timestamp}.{payload}', ...hmacOptions } = options;
+  const { tolerance, maxAge, maxFutureSkew, clock, format = '{timestamp}.{payload}', ...hmacOptions } = options;
 
   // Validate timestamp freshness
-  if (!isTimestampValid(timestamp, tolerance)) {
+  if (!isTimestampValid(timestamp, toTimestampWindow({ tolerance, maxAge, maxFutureSkew, clock }))) {
     return false;
   }
 
@@ -156,6 +175,107 @@ function verifyHmacWithTimestamp(
   return verifyHmac(signedPayload, signature, secret, hmacOptions);
 }
 
+/**
+ * Generic HMAC verification using WebCrypto (works in edge runtimes)
+ *
+ * @param payload - The raw request body
+ * @param signature - The signature to verify against
+ * @param secret - The HMAC secret
+ * @param options - Verification options
+ * @returns Promise resolving to true if the signature is valid
+ *
+ * @example
+ * ```typescript
+ * import { hmac } from 'webhook-verify';
+ *
+ * await hmac.verifyAsync(payload, signature, secret, { encoding: 'base64' });
+ * ```
+ */
+async function verifyHmacAsync(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string | Uint8Array,
+  options: HmacOptions = {}
+): Promise<boolean> {
+  if (!payload || !signature || !secret) {
+    return false;
+  }
+
+  const { algorithm = 'sha256', encoding = 'hex', prefix } = options;
+
+  // Strip prefix if present
+  let sig = signature;
+  if (prefix && sig.startsWith(prefix)) {
+    sig = sig.slice(prefix.length);
+  }
+
+  const computed =
+    encoding === 'base64'
+      ? await computeHmacBase64Async(algorithm, secret, payload)
+      : await computeHmacHexAsync(algorithm, secret, payload);
+
+  return constantTimeEqual(computed, encoding === 'hex' ? sig.toLowerCase() : sig);
+}
+
+/**
+ * Generate an HMAC signature using WebCrypto
+ *
+ * @param payload - The data to sign
+ * @param secret - The HMAC secret
+ * @param options - Signing options
+ * @returns Promise resolving to the signature string
+ */
+async function signHmacAsync(
+  payload: string | Uint8Array,
+  secret: string | Uint8Array,
+  options: HmacOptions = {}
+): Promise<string> {
+  const { algorithm = 'sha256', encoding = 'hex', prefix = '' } = options;
+
+  const sig =
+    encoding === 'base64'
+      ? await computeHmacBase64Async(algorithm, secret, payload)
+      : await computeHmacHexAsync(algorithm, secret, payload);
+
+  return prefix + sig;
+}
+
+/**
+ * Generic HMAC verification with timestamp validation using WebCrypto
+ *
+ * @param payload - The raw request body
+ * @param signature - The signature to verify against
+ * @param secret - The HMAC secret
+ * @param timestamp - The timestamp (Unix seconds)
+ * @param options - Verification options
+ * @returns Promise resolving to true if the signature is valid and timestamp is fresh
+ */
+async function verifyHmacWithTimestampAsync(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string | Uint8Array,
+  timestamp: number | string,
+  options: TimestampHmacOptions = {}
+): Promise<boolean> {
+  if (!payload || !signature || !secret || !timestamp) {
+    return false;
+  }
+
+  const { tolerance, maxAge, maxFutureSkew, clock, format = '{timestamp}.{payload}', ...hmacOptions } = options;
+
+  // Validate timestamp freshness
+  if (!isTimestampValid(timestamp, toTimestampWindow({ tolerance, maxAge, maxFutureSkew, clock }))) {
+    return false;
+  }
+
+  // Build the signed payload using the format string
+  const signedPayload = format
+    .replace('{timestamp}', String(timestamp))
+    .replace('{payload}', toUtf8String(payload));
+
+  return verifyHmacAsync(signedPayload, signature, secret, hmacOptions);
+}
+
 /**
  * HMAC verification utilities
  */
@@ -163,15 +283,25 @@ export const hmac = {
   verify: verifyHmac,
   verifyWithTimestamp: verifyHmacWithTimestamp,
   sign: signHmac,
+  verifyAsync: verifyHmacAsync,
+  verifyWithTimestampAsync: verifyHmacWithTimestampAsync,
+  signAsync: signHmacAsync,
 };
 
+export interface Ed25519Options {
+  /** Key ID selecting the key when a key set is passed (default: try every Ed25519 key) */
+  kid?: string;
+}
+
 /**
  * Verify an Ed25519 signature
  *
  * @param payload - The message that was signed
  * @param signature - The hex-encoded signature
- * @param publicKey - The hex-encoded public key
+ * @param publicKey - The hex-encoded public key, or a key set
+ * @param options - Verification options
  * @returns true if the signature is valid
+ * @throws Error if a key set's resolver has not cached the key yet (use verifyAsync())
  *
  * @example
  * ```typescript
@@ -180,24 +310,65 @@ export const hmac = {
  * // Discord-style verification
  * const message = timestamp + body;
  * ed25519.verify(message, signature, publicKey);
+ *
+ * // With rotating keys, picked by key ID
+ * ed25519.verify(message, signature, keySet, { kid: req.headers['x-key-id'] });
  * ```
  */
 function verifyEd25519Signature(
   payload: string | Buffer,
   signature: string,
-  publicKey: string
+  publicKey: string | KeySet,
+  options: Ed25519Options = {}
 ): boolean {
   if (!payload || !signature || !publicKey) {
     return false;
   }
+  if (typeof publicKey !== 'string') {
+    return getVerificationKeys(publicKey, options.kid, 'EdDSA').some((jwk) => {
+      const key = importJwk(jwk);
+      return key !== null && verifyEd25519(key, signature, payload);
+    });
+  }
   return verifyEd25519(publicKey, signature, payload);
 }
 
+/**
+ * Verify an Ed25519 signature using WebCrypto (works in edge runtimes)
+ *
+ * @param payload - The message that was signed
+ * @param signature - The hex-encoded signature
+ * @param publicKey - The hex-encoded public key, or a key set
+ * @param options - Verification options
+ * @returns Promise resolving to true if the signature is valid
+ */
+async function verifyEd25519SignatureAsync(
+  payload: string | Uint8Array,
+  signature: string,
+  publicKey: string | KeySet,
+  options: Ed25519Options = {}
+): Promise<boolean> {
+  if (!payload || !signature || !publicKey) {
+    return false;
+  }
+  if (typeof publicKey !== 'string') {
+    for (const jwk of await getVerificationKeysAsync(publicKey, options.kid, 'EdDSA')) {
+      const key = await importJwkAsync(jwk, 'EdDSA');
+      if (key && (await verifyEd25519Async(key, signature, payload))) {
+        return true;
+      }
+    }
+    return false;
+  }
+  return verifyEd25519Async(publicKey, signature, payload);
+}
+
 /**
  * Ed25519 signature verification
  */
 export const ed25519 = {
   verify: verifyEd25519Signature,
+  verifyAsync: verifyEd25519SignatureAsync,
 };
 
 export interface RsaOptions {
@@ -205,6 +376,8 @@ export interface RsaOptions {
   algorithm?: 'RSA-SHA256' | 'RSA-SHA1';
   /** The encoding of the signature */
   encoding?: 'base64' | 'hex';
+  /** Key ID selecting the key when a key set is passed (default: try every RSA key) */
+  kid?: string;
 }
 
 /**
@@ -212,9 +385,10 @@ export interface RsaOptions {
  *
  * @param payload - The message that was signed
  * @param signature - The signature (base64 or hex encoded)
- * @param publicKey - The PEM-encoded public key
+ * @param publicKey - The PEM-encoded public key, or a key set
  * @param options - Verification options
  * @returns true if the signature is valid
+ * @throws Error if a key set's resolver has not cached the key yet (use verifyAsync())
  *
  * @example
  * ```typescript
@@ -227,22 +401,352 @@ export interface RsaOptions {
 function verifyRsaSignature(
   payload: string | Buffer,
   signature: string,
-  publicKey: string,
+  publicKey: string | KeySet,
   options: RsaOptions = {}
 ): boolean {
   if (!payload || !signature || !publicKey) {
     return false;
   }
 
-  const { algorithm = 'RSA-SHA256' } = options;
+  const { algorithm = 'RSA-SHA256', kid } = options;
+  if (typeof publicKey !== 'string') {
+    return getVerificationKeys(publicKey, kid, algorithm === 'RSA-SHA1' ? 'RS1' : 'RS256').some((jwk) => {
+      const key = importJwk(jwk);
+      return key !== null && verifyRsa(key, signature, payload, algorithm);
+    });
+  }
   return verifyRsa(publicKey, signature, payload, algorithm);
 }
 
+/**
+ * Verify an RSA signature using WebCrypto (works in edge runtimes)
+ *
+ * @param payload - The message that was signed
+ * @param signature - The base64-encoded signature
+ * @param publicKey - The PEM-encoded public key, or a key set
+ * @param options - Verification options
+ * @returns Promise resolving to true if the signature is valid
+ */
+async function verifyRsaSignatureAsync(
+  payload: string | Uint8Array,
+  signature: string,
+  publicKey: string | KeySet,
+  options: RsaOptions = {}
+): Promise<boolean> {
+  if (!payload || !signature || !publicKey) {
+    return false;
+  }
+
+  const { algorithm = 'RSA-SHA256', kid } = options;
+  if (typeof publicKey !== 'string') {
+    const jwsAlgorithm = algorithm === 'RSA-SHA1' ? 'RS1' : 'RS256';
+    for (const jwk of await getVerificationKeysAsync(publicKey, kid, jwsAlgorithm)) {
+      const key = await importJwkAsync(jwk, jwsAlgorithm);
+      if (key && (await verifyRsaAsync(key, signature, payload, algorithm))) {
+        return true;
+      }
+    }
+    return false;
+  }
+  return verifyRsaAsync(publicKey, signature, payload, algorithm);
+}
+
 /**
  * RSA signature verification
  */
 export const rsa = {
   verify: verifyRsaSignature,
+  verifyAsync: verifyRsaSignatureAsync,
+};
+
+/**
+ * JWS algorithms accepted by the jwt handler
+ */
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'PS256' | 'ES256' | 'EdDSA';
+
+export interface JwtOptions {
+  /**
+   * Algorithms to accept; tokens with any other `alg` header (including "none")
+   * are rejected. HS* tokens are also rejected when an asymmetric algorithm is
+   * listed, since the key is then a public key.
+   */
+  algorithms: JwtAlgorithm[];
+  /** Clock skew in seconds allowed when checking `exp`, `nbf` and `iat` (default: 0) */
+  leeway?: number;
+  /** Expected audience: the `aud` claim must be, or contain, one of these */
+  audience?: string | string[];
+  /** Expected issuer: the `iss` claim must be one of these */
+  issuer?: string | string[];
+  /** Maximum age in seconds, from the `iat` claim (which is then required and may not be in the future) */
+  maxAge?: number;
+  /** The current time in milliseconds, used for `exp`, `nbf` and `iat` (default: Date.now) */
+  clock?: () => number;
+}
+
+export interface JwtSignOptions {
+  /** The JWS algorithm (default: 'HS256') */
+  algorithm?: JwtAlgorithm;
+  /** Extra JOSE header fields (e.g., `kid`) */
+  header?: Record<string, unknown>;
+}
+
+/**
+ * Result of jwt.verify(), with the decoded token when the signature is valid
+ */
+export interface JwtVerificationResult extends VerificationResult {
+  /** The JOSE header */
+  header?: Record<string, unknown>;
+  /** The claims */
+  payload?: Record<string, unknown>;
+}
+
+/**
+ * A JWT split into its parts
+ */
+interface DecodedJwt {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signingInput: string;
+  signature: Uint8Array;
+}
+
+/**
+ * Decode a base64url JSON object, or return null
+ */
+function decodeJwtPart(part: string): Record<string, unknown> | null {
+  const bytes = /^[\w-]*$/.test(part) ? base64ToBytes(part) : null;
+  if (!bytes) {
+    return null;
+  }
+  try {
+    const value = JSON.parse(toUtf8String(bytes));
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split and decode a JWT, and check its algorithm against the allowed list
+ */
+function decodeJwt(token: string, options: JwtOptions): JwtVerificationResult | DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3 || !/^[\w-]*$/.test(parts[2])) {
+    return failure('malformed_signature');
+  }
+
+  const header = decodeJwtPart(parts[0]);
+  const payload = decodeJwtPart(parts[1]);
+  const signature = base64ToBytes(parts[2]);
+  if (!header || !payload || !signature) {
+    return failure('malformed_signature');
+  }
+
+  const alg = header.alg as JwtAlgorithm;
+  if (!options.algorithms.includes(alg)) {
+    return failure('invalid_claims');
+  }
+
+  // One key cannot be both an HMAC secret and a public key: with an asymmetric
+  // algorithm allowed, the key is public, so an HS* token signed with it is forged
+  if (alg.startsWith('HS') && options.algorithms.some((allowed) => !allowed.startsWith('HS'))) {
+    return failure('invalid_key');
+  }
+
+  return { header, payload, signingInput: `${parts[0]}.${parts[1]}`, signature };
+}
+
+/**
+ * The `kid` header of a decoded token, if it is a string
+ */
+function keyId(decoded: DecodedJwt): string | undefined {
+  return typeof decoded.header.kid === 'string' ? decoded.header.kid : undefined;
+}
+
+/**
+ * The failure after checking a signature with each candidate key, or null if a key matched:
+ * invalid_key if no key could be used, signature_mismatch otherwise
+ */
+function keyFailure(outcomes: (boolean | null)[]): JwtVerificationResult | null {
+  if (outcomes.includes(true)) {
+    return null;
+  }
+  return outcomes.includes(false) ? failure('signature_mismatch') : failure('invalid_key');
+}
+
+/**
+ * Check the registered claims of a token whose signature is valid
+ */
+function checkJwtClaims(decoded: DecodedJwt, options: JwtOptions): JwtVerificationResult {
+  const { header, payload } = decoded;
+  const { leeway = 0, audience, issuer, maxAge, clock = Date.now } = options;
+  const now = Math.floor(clock() / 1000);
+
+  const { exp, nbf, iat, aud, iss } = payload;
+  for (const claim of [exp, nbf, iat]) {
+    if (claim !== undefined && typeof claim !== 'number') {
+      return failure('malformed_signature');
+    }
+  }
+  const ts = iat as number | undefined;
+
+  // A token is expired on and after its `exp` (RFC 7519, section 4.1.4)
+  if (exp !== undefined && now >= (exp as number) + leeway) {
+    return failure('timestamp_expired', ts);
+  }
+  if (nbf !== undefined && now + leeway < (nbf as number)) {
+    return failure('timestamp_in_future', ts);
+  }
+  if (maxAge !== undefined) {
+    if (ts === undefined) {
+      return failure('invalid_claims');
+    }
+    if (now - ts > maxAge + leeway) {
+      return failure('timestamp_expired', ts);
+    }
+    if (now + leeway < ts) {
+      return failure('timestamp_in_future', ts);
+    }
+  }
+
+  if (audience !== undefined) {
+    const expected = [audience].flat();
+    const actual = [aud ?? []].flat();
+    if (!actual.some((value) => expected.includes(value as string))) {
+      return failure('invalid_claims', ts);
+    }
+  }
+  if (issuer !== undefined && !(typeof iss === 'string' && [issuer].flat().includes(iss))) {
+    return failure('invalid_claims', ts);
+  }
+
+  return { ...success(ts), header, payload };
+}
+
+/**
+ * Verify a JSON Web Token (JWS compact serialization)
+ *
+ * The `alg` header must be in `options.algorithms`, so a token cannot pick a
+ * weaker algorithm or "none". HMAC signatures are compared in constant time.
+ * After the signature, `exp` and `nbf` are checked against the clock (with
+ * `leeway`), `iat` when `maxAge` is set, then `aud` and `iss` when expected
+ * values are given.
+ *
+ * With a key set, the keys matching the token's `kid` header (or all keys
+ * when it has none) are tried, skipping keys whose type or `alg` does not fit
+ * the token's algorithm.
+ *
+ * @param token - The JWT
+ * @param key - The HMAC secret (HS*), the PEM public key (EdDSA also accepts a hex key), or a key set
+ * @param options - Allowed algorithms and claim checks
+ * @returns The verification result, with the header and claims when valid
+ * @throws Error if a key set's resolver has not cached the token's key yet (use verifyAsync())
+ *
+ * @example
+ * ```typescript
+ * import { jwt } from 'webhook-verify';
+ *
+ * const result = jwt.verify(token, publicKey, {
+ *   algorithms: ['ES256'],
+ *   issuer: 'https://events.example.com',
+ *   leeway: 30,
+ * });
+ * if (result.valid) {
+ *   console.log(result.payload!.sub);
+ * }
+ * ```
+ */
+function verifyJwt(token: string, key: string | KeySet, options: JwtOptions): JwtVerificationResult {
+  if (!token) {
+    return failure('missing_header');
+  }
+  if (!key) {
+    return failure('invalid_key');
+  }
+
+  const decoded = decodeJwt(token, options);
+  if ('valid' in decoded) {
+    return decoded;
+  }
+
+  const alg = decoded.header.alg as JwtAlgorithm;
+  const keys: (string | JsonWebKey)[] = typeof key === 'string' ? [key] : getVerificationKeys(key, keyId(decoded), alg);
+
+  const outcomes: (boolean | null)[] = [];
+  for (const candidate of keys) {
+    outcomes.push(verifyJws(alg, candidate, decoded.signingInput, decoded.signature));
+    if (outcomes.at(-1)) {
+      break;
+    }
+  }
+
+  return keyFailure(outcomes) ?? checkJwtClaims(decoded, options);
+}
+
+/**
+ * Verify a JSON Web Token using WebCrypto (works in edge runtimes)
+ *
+ * @param token - The JWT
+ * @param key - The HMAC secret (HS*), the PEM public key (EdDSA also accepts a hex key), or a key set
+ * @param options - Allowed algorithms and claim checks
+ * @returns Promise resolving to the verification result
+ */
+async function verifyJwtAsync(
+  token: string,
+  key: string | KeySet,
+  options: JwtOptions
+): Promise<JwtVerificationResult> {
+  if (!token) {
+    return failure('missing_header');
+  }
+  if (!key) {
+    return failure('invalid_key');
+  }
+
+  const decoded = decodeJwt(token, options);
+  if ('valid' in decoded) {
+    return decoded;
+  }
+
+  const alg = decoded.header.alg as JwtAlgorithm;
+  const keys: (string | JsonWebKey)[] =
+    typeof key === 'string' ? [key] : await getVerificationKeysAsync(key, keyId(decoded), alg);
+
+  const outcomes: (boolean | null)[] = [];
+  for (const candidate of keys) {
+    outcomes.push(await verifyJwsAsync(alg, candidate, decoded.signingInput, decoded.signature));
+    if (outcomes.at(-1)) {
+      break;
+    }
+  }
+
+  return keyFailure(outcomes) ?? checkJwtClaims(decoded, options);
+}
+
+/**
+ * Create a JSON Web Token
+ *
+ * @param payload - The claims
+ * @param key - The HMAC secret (HS*), or the PEM private key (EdDSA also accepts a hex seed)
+ * @param options - The algorithm and extra header fields
+ * @returns The JWT
+ */
+function signJwt(payload: Record<string, unknown>, key: string, options: JwtSignOptions = {}): string {
+  const { algorithm = 'HS256', header } = options;
+
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode({ alg: algorithm, typ: 'JWT', ...header })}.${encode(payload)}`;
+
+  return `${signingInput}.${signJws(algorithm, key, signingInput).toString('base64url')}`;
+}
+
+/**
+ * JSON Web Token verification, for webhooks signed with a JWT
+ */
+export const jwt = {
+  verify: verifyJwt,
+  verifyAsync: verifyJwtAsync,
+  sign: signJwt,
 };
 
 /**
@@ -260,12 +764,21 @@ export function timingSafeEqual(a: string, b: string): boolean {
  * Validate that a timestamp is within the allowed tolerance
  *
  * @param timestamp - Unix timestamp in seconds
- * @param tolerance - Maximum age in seconds (default: 300)
+ * @param tolerance - Maximum age (and future skew) in seconds (default: 300), or separate
+ *   `maxAge` and `maxFutureSkew` limits and a `clock`
  * @returns true if timestamp is fresh
+ *
+ * @example
+ * ```typescript
+ * validateTimestamp(timestamp, 300);
+ *
+ * // Allow late deliveries, but not timestamps far in the future, as of the receipt time
+ * validateTimestamp(timestamp, { maxAge: 3600, maxFutureSkew: 30, clock: () => receivedAt.getTime() });
+ * ```
  */
 export function validateTimestamp(
   timestamp: number | string,
-  tolerance: number = 300
+  tolerance: number | Pick<TimestampOptions, 'tolerance' | 'maxAge' | 'maxFutureSkew' | 'clock'> = 300
 ): boolean {
-  return isTimestampValid(timestamp, tolerance);
+  return isTimestampValid(timestamp, toTimestampWindow(typeof tolerance === 'number' ? { tolerance } : tolerance));
 }
@@ -0,0 +1,387 @@
+/**
+ * Command-line interface for webhook-verify
+ *
+ * Reproduces verification of captured deliveries outside the application,
+ * and signs requests for exercising webhook handlers locally:
+ *
+ *   webhook-verify verify --provider stripe --body @body.json \
+ *     --header "stripe-signature: t=...,v1=..."
+ *
+ *   webhook-verify sign --provider stripe --body @body.json \
+ *     --url http://localhost:3000/webhooks/stripe
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { verifyDetailed, sign, diagnose, isProviderSupported, getSupportedProviders } from './index.js';
+import type { Headers } from './headers.js';
+import type { Provider, VerifyOptions } from './types.js';
+
+/**
+ * Where the CLI writes output and reads its environment
+ */
+export interface CliIO {
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * A request parsed from a raw HTTP request file
+ */
+interface RawRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[]>;
+  body: Buffer;
+}
+
+/**
+ * Environment variable read when --secret is not given
+ */
+const SECRET_ENV = 'WEBHOOK_SECRET';
+
+const usage = `Usage: webhook-verify <command> [options]
+
+Commands:
+  verify    Verify a captured webhook delivery
+  sign      Sign a payload and print a ready-to-send request
+
+Options for verify:
+  --provider <name>        Webhook provider (required)
+  --secret <secret>        Secret or public key (default: $${SECRET_ENV})
+  --body <text|@file>      Raw request body, inline or read from a file
+  --header <name:value>    Request header (repeatable)
+  --request <file>         Raw HTTP request (request line, headers, blank line, body)
+  --url <url>              Full webhook URL, for URL-signing providers
+  --method <method>        HTTP method (default: from --request, or POST)
+  --tolerance <seconds>    Timestamp tolerance (default: 300)
+  -h, --help               Show this help
+
+Options for sign:
+  --provider <name>        Webhook provider (required)
+  --secret <secret>        Secret or private key (default: $${SECRET_ENV})
+  --body <text|@file>      Request body, inline or read from a file (required)
+  --url <url>              Target URL, also signed by URL-signing providers
+  --method <method>        HTTP method (default: POST)
+  --timestamp <seconds>    Unix timestamp to sign with (default: now)
+  --id <id>                Message ID for Svix-based providers (default: random)
+  --header <name:value>    Extra header to send, e.g. x-github-event:push (repeatable)
+  --format <format>        Output: curl (default), http (raw request) or headers
+
+Exit status is 0 when the signature is valid, 1 when it is not, and 2 on usage errors.
+`;
+
+/**
+ * Error for invalid command-line usage (exit status 2)
+ */
+function usageError(message: string): Error {
+  return Object.assign(new Error(message), { usage: true });
+}
+
+/**
+ * Read an inline value, or a file when the value starts with "@"
+ */
+function readValue(value: string): Buffer {
+  return value.startsWith('@') ? readFileSync(value.slice(1)) : Buffer.from(value);
+}
+
+/**
+ * Parse a "name: value" header argument
+ */
+function parseHeader(header: string): [string, string] {
+  const colon = header.indexOf(':');
+  if (colon <= 0) {
+    throw usageError(`Invalid header "${header}", expected name:value`);
+  }
+  return [header.slice(0, colon).trim().toLowerCase(), header.slice(colon + 1).trim()];
+}
+
+/**
+ * Add a header, collecting repeated headers into an array
+ */
+function addHeader(headers: Record<string, string | string[]>, name: string, value: string): void {
+  const existing = headers[name];
+  headers[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+}
+
+/**
+ * Parse a raw HTTP/1.x request, keeping the body bytes as captured
+ */
+function parseRawRequest(data: Buffer): RawRequest {
+  let separator = data.indexOf('\r\n\r\n');
+  let separatorLength = 4;
+  if (separator === -1) {
+    separator = data.indexOf('\n\n');
+    separatorLength = 2;
+  }
+
+  const head = (separator === -1 ? data : data.subarray(0, separator)).toString('utf8');
+  const body = separator === -1 ? Buffer.alloc(0) : data.subarray(separator + separatorLength);
+
+  const [requestLine, ...headerLines] = head.split(/\r?\n/);
+  const [method, path] = requestLine.trim().split(/\s+/);
+  if (!method || !path) {
+    throw usageError('Invalid request file: missing request line');
+  }
+
+  const headers: Record<string, string | string[]> = {};
+  for (const line of headerLines) {
+    if (line.trim()) {
+      addHeader(headers, ...parseHeader(line));
+    }
+  }
+
+  return { method: method.toUpperCase(), path, headers, body };
+}
+
+/**
+ * Check the --provider option
+ */
+function requireProvider(provider: string | undefined): Provider {
+  if (!provider) {
+    throw usageError('Missing --provider');
+  }
+  if (!isProviderSupported(provider)) {
+    throw usageError(`Unknown provider "${provider}". Supported: ${getSupportedProviders().join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * Get the secret from --secret or the environment
+ */
+function requireSecret(secret: string | undefined, io: CliIO): string {
+  const value = secret ?? io.env[SECRET_ENV];
+  if (!value) {
+    throw usageError(`Missing --secret (or the ${SECRET_ENV} environment variable)`);
+  }
+  return value;
+}
+
+/**
+ * Run the verify command
+ */
+function verifyCommand(args: string[], io: CliIO): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      provider: { type: 'string' },
+      secret: { type: 'string' },
+      body: { type: 'string' },
+      header: { type: 'string', multiple: true },
+      request: { type: 'string' },
+      url: { type: 'string' },
+      method: { type: 'string' },
+      tolerance: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    io.stdout.write(usage);
+    return 0;
+  }
+
+  const provider = requireProvider(values.provider);
+  const secret = requireSecret(values.secret, io);
+
+  const request = values.request ? parseRawRequest(readFileSync(values.request)) : undefined;
+
+  const headers: Record<string, string | string[]> = { ...request?.headers };
+  for (const header of values.header ?? []) {
+    const [name, value] = parseHeader(header);
+    headers[name] = value;
+  }
+
+  const body = values.body !== undefined ? readValue(values.body) : request?.body;
+  if (body === undefined) {
+    throw usageError('Missing --body or --request');
+  }
+
+  const tolerance = values.tolerance !== undefined ? Number(values.tolerance) : undefined;
+  if (tolerance !== undefined && !(tolerance >= 0)) {
+    throw usageError(`Invalid --tolerance "${values.tolerance}", expected seconds`);
+  }
+
+  const host = headers.host;
+  const url = values.url ?? (request && host ? `https://${host}${request.path}` : undefined);
+  const options = {
+    ...(url && { url }),
+    method: values.method ?? request?.method ?? 'POST',
+    ...(tolerance !== undefined && { tolerance }),
+  } as VerifyOptions;
+
+  const result = verifyDetailed(provider, body, headers as Headers, secret, options);
+
+  if (result.valid) {
+    const details = [`provider: ${provider}`];
+    if (result.timestamp !== undefined) {
+      details.push(`signed at ${new Date(result.timestamp * 1000).toISOString()}`);
+    }
+    io.stdout.write(`valid (${details.join(', ')})\n`);
+    return 0;
+  }
+
+  io.stdout.write(`invalid: ${result.reason}\n`);
+  if (result.reason === 'missing_option') {
+    io.stderr.write(`${provider} signs the request URL: pass --url\n`);
+    return 1;
+  }
+  for (const hint of diagnose(provider, body, headers as Headers, secret, options).hints) {
+    io.stderr.write(`${hint}\n`);
+  }
+  return 1;
+}
+
+/**
+ * Quote a value for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return /^[\w@%+=:,./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Guess the Content-Type of a body: JSON if it parses, form-encoded otherwise
+ */
+function guessContentType(body: Buffer): string {
+  try {
+    JSON.parse(body.toString('utf8'));
+    return 'application/json';
+  } catch {
+    return 'application/x-www-form-urlencoded';
+  }
+}
+
+/**
+ * Run the sign command
+ */
+function signCommand(args: string[], io: CliIO): number {
+  const { values } = parseArgs({
+    args,
+    options: {
+      provider: { type: 'string' },
+      secret: { type: 'string' },
+      body: { type: 'string' },
+      url: { type: 'string' },
+      method: { type: 'string' },
+      timestamp: { type: 'string' },
+      id: { type: 'string' },
+      header: { type: 'string', multiple: true },
+      format: { type: 'string', default: 'curl' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help) {
+    io.stdout.write(usage);
+    return 0;
+  }
+
+  const provider = requireProvider(values.provider);
+  const secret = requireSecret(values.secret, io);
+
+  if (values.body === undefined) {
+    throw usageError('Missing --body');
+  }
+  const body = readValue(values.body);
+
+  const format = values.format;
+  if (format !== 'curl' && format !== 'http' && format !== 'headers') {
+    throw usageError(`Invalid --format "${format}", expected curl, http or headers`);
+  }
+
+  const url = values.url;
+  if (!url && format !== 'headers') {
+    throw usageError(`--format ${format} needs --url`);
+  }
+
+  const timestamp = values.timestamp !== undefined ? Number(values.timestamp) : undefined;
+  if (timestamp !== undefined && !Number.isInteger(timestamp)) {
+    throw usageError(`Invalid --timestamp "${values.timestamp}", expected Unix seconds`);
+  }
+
+  const method = (values.method ?? 'POST').toUpperCase();
+  const signed = sign(provider, body, secret, {
+    ...(url && { url }),
+    method,
+    ...(timestamp !== undefined && { timestamp }),
+    ...(values.id && { id: values.id }),
+  });
+
+  const headers: Record<string, string> = { 'content-type': guessContentType(body) };
+  for (const header of values.header ?? []) {
+    const [name, value] = parseHeader(header);
+    headers[name] = value;
+  }
+  Object.assign(headers, signed);
+
+  if (format === 'headers') {
+    for (const [name, value] of Object.entries(headers)) {
+      io.stdout.write(`${name}: ${value}\n`);
+    }
+    return 0;
+  }
+
+  if (format === 'http') {
+    const target = new URL(url!);
+    const head = [
+      `${method} ${target.pathname}${target.search} HTTP/1.1`,
+      `host: ${target.host}`,
+      ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      `content-length: ${body.length}`,
+    ];
+    io.stdout.write(`${head.join('\r\n')}\r\n\r\n${body.toString('utf8')}`);
+    return 0;
+  }
+
+  // Send a body read from a file as-is, so the signed bytes are not re-encoded
+  const data = values.body.startsWith('@') ? `@${values.body.slice(1)}` : body.toString('utf8');
+  const command = [
+    'curl',
+    '-X',
+    method,
+    shellQuote(url!),
+    ...Object.entries(headers).flatMap(([name, value]) => ['-H', shellQuote(`${name}: ${value}`)]),
+    '--data-binary',
+    shellQuote(data),
+  ];
+  io.stdout.write(`${command.join(' ')}\n`);
+  return 0;
+}
+
+/**
+ * Run the CLI with the given arguments and return the exit status
+ *
+ * @param argv - Command-line arguments, without the node and script paths
+ * @param io - Output streams and environment
+ * @returns The process exit status
+ */
+export function main(argv: string[], io: CliIO): number {
+  const [command, ...args] = argv;
+
+  try {
+    switch (command) {
+      case 'verify':
+        return verifyCommand(args, io);
+      case 'sign':
+        return signCommand(args, io);
+      case undefined:
+      case '-h':
+      case '--help':
+      case 'help':
+        io.stdout.write(usage);
+        return command === undefined ? 2 : 0;
+      default:
+        throw usageError(`Unknown command "${command}"`);
+    }
+  } catch (error) {
+    const { message, usage: isUsage } = error as Error & { usage?: boolean };
+    io.stderr.write(`webhook-verify: ${message}\n`);
+    if (isUsage || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr.write(`Run "webhook-verify --help" for usage.\n`);
+      return 2;
+    }
+    return 1;
+  }
+}
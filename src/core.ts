@@ -0,0 +1,808 @@
+import { getProviderNames, getProviderVerifier, signsDecodedBody } from './registry.js';
+import { getSignature, getHeaderNames } from './headers.js';
+import type { Headers, SignatureData } from './headers.js';
+import { checkReplay, checkReplayAsync } from './replay.js';
+import { detectProvider } from './detect.js';
+import { resolveSecrets, resolveSecretsAsync } from './resolver.js';
+import type { SecretResolver } from './resolver.js';
+import { parseEvent } from './events.js';
+import type { WebhookEvent } from './events.js';
+import { failure } from './utils/result.js';
+import { requestUrl } from './utils/request.js';
+import type { IncomingMessage } from 'http';
+import type {
+  Provider,
+  ProviderVerifier,
+  SignOptions,
+  VerifyOptions,
+  VerificationResult,
+  VerificationFailureReason,
+} from './types.js';
+
+/**
+ * Look up the verifier for a provider
+ */
+function getVerifier(provider: Provider): ProviderVerifier {
+  const verifier = getProviderVerifier(provider);
+
+  if (!verifier) {
+    throw new Error(`Unknown webhook provider: ${provider}`);
+  }
+
+  return verifier;
+}
+
+/**
+ * Resolve the signature data from a signature or headers object
+ * Returns null if headers are passed but the signature headers are missing.
+ */
+function extractSignature(provider: Provider, signatureOrHeaders: string | Headers): SignatureData | null {
+  if (typeof signatureOrHeaders === 'string') {
+    // Direct signature string
+    return { signature: signatureOrHeaders };
+  }
+
+  // Headers object - extract signature
+  return getSignature(provider, signatureOrHeaders);
+}
+
+/**
+ * Verify a webhook signature from a supported provider
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body (string or Buffer)
+ * @param signatureOrHeaders - The signature string OR request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns true if the signature is valid, false otherwise
+ * @throws Error if headers object is passed but required signature headers are missing,
+ *   or if the secret resolver returns a Promise (use verifyAsync() instead)
+ *
+ * @example
+ * ```typescript
+ * import { verify } from 'webhook-verify';
+ *
+ * // Pass headers directly (recommended)
+ * const isValid = verify('stripe', req.rawBody, req.headers, webhookSecret);
+ *
+ * // Or pass signature string manually
+ * const isValid = verify('stripe', body, signatureString, webhookSecret);
+ *
+ * // With custom timestamp tolerance
+ * const isValid = verify('stripe', body, req.headers, secret, { tolerance: 600 });
+ *
+ * // With additional secrets for key rotation
+ * const isValid = verify('stripe', body, req.headers, newSecret, {
+ *   additionalSecrets: [oldSecret]
+ * });
+ *
+ * // Reject deliveries that were already accepted once
+ * const replayStore = createMemoryReplayStore();
+ * const isValid = verify('stripe', body, req.headers, secret, { replayStore });
+ *
+ * // Pick the secret per tenant
+ * const isValid = verify('shopify', body, req.headers, ({ routing }) =>
+ *   shopSecrets[routing.shopDomain!]
+ * );
+ * ```
+ */
+export function verify(
+  provider: Provider,
+  payload: string | Buffer,
+  signatureOrHeaders: string | Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): boolean {
+  const verifier = getVerifier(provider);
+  const sigData = extractSignature(provider, signatureOrHeaders);
+
+  if (sigData === null) {
+    const headerNames = getHeaderNames(provider);
+    const required = Object.values(headerNames).join(', ');
+    throw new Error(`Missing required webhook signature header(s) for ${provider}: ${required}`);
+  }
+
+  // Try the primary secret first, then each additional secret in order
+  const secrets = resolveSecrets(provider, payload, signatureOrHeaders, sigData, secret, options);
+
+  // The detailed result carries the timestamp, which sets how long the replay store remembers the delivery
+  for (const key of secrets) {
+    if (!key) continue;
+    const result = verifier.verifyDetailed(payload, sigData.signature, key, options);
+    if (result.valid) {
+      return checkReplay(provider, payload, result, sigData, options).valid;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Verify a webhook signature and report why verification failed
+ *
+ * Unlike verify(), missing signature headers are reported as a
+ * `missing_header` failure instead of throwing.
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body (string or Buffer)
+ * @param signatureOrHeaders - The signature string OR request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns The verification result with failure reason, matched secret index and timestamp
+ *
+ * @example
+ * ```typescript
+ * import { verifyDetailed } from 'webhook-verify';
+ *
+ * const result = verifyDetailed('stripe', req.rawBody, req.headers, webhookSecret, {
+ *   additionalSecrets: [oldSecret]
+ * });
+ *
+ * if (!result.valid) {
+ *   console.warn(`Stripe webhook rejected: ${result.reason}`);
+ * } else if (result.secretIndex! > 0) {
+ *   console.warn('Stripe webhook signed with a rotated-out secret');
+ * }
+ * ```
+ */
+export function verifyDetailed(
+  provider: Provider,
+  payload: string | Buffer,
+  signatureOrHeaders: string | Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): VerificationResult {
+  const verifier = getVerifier(provider);
+  const sigData = extractSignature(provider, signatureOrHeaders);
+
+  if (sigData === null) {
+    return failure('missing_header');
+  }
+
+  // Try the primary secret first, then each additional secret in order
+  const secrets = resolveSecrets(provider, payload, signatureOrHeaders, sigData, secret, options);
+  if (!secrets.some(Boolean)) {
+    return failure('invalid_key');
+  }
+  let firstFailure: VerificationResult | undefined;
+
+  for (let i = 0; i < secrets.length; i++) {
+    if (!secrets[i]) continue;
+    const result = verifier.verifyDetailed(payload, sigData.signature, secrets[i], options);
+    if (result.valid) {
+      return checkReplay(provider, payload, { ...result, secretIndex: i }, sigData, options);
+    }
+    // Report the primary secret's failure if none match
+    firstFailure ??= result;
+  }
+
+  return firstFailure!;
+}
+
+/**
+ * Verify a webhook signature using WebCrypto
+ *
+ * Works in any runtime that exposes `globalThis.crypto.subtle` (Node.js 18+,
+ * Deno, Bun, Cloudflare Workers, Vercel Edge) and accepts the body as a
+ * string or Uint8Array, so no Buffer is needed.
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body (string or bytes)
+ * @param signatureOrHeaders - The signature string OR request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns Promise resolving to true if the signature is valid, false otherwise
+ * @throws Error if headers object is passed but required signature headers are missing
+ *
+ * @example
+ * ```typescript
+ * import { verifyAsync } from 'webhook-verify';
+ *
+ * // Cloudflare Worker
+ * export default {
+ *   async fetch(request, env) {
+ *     const body = await request.text();
+ *     const headers = Object.fromEntries(request.headers);
+ *     const isValid = await verifyAsync('stripe', body, headers, env.STRIPE_WEBHOOK_SECRET);
+ *     // ...
+ *   },
+ * };
+ * ```
+ */
+export async function verifyAsync(
+  provider: Provider,
+  payload: string | Uint8Array,
+  signatureOrHeaders: string | Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): Promise<boolean> {
+  getVerifier(provider);
+
+  if (extractSignature(provider, signatureOrHeaders) === null) {
+    const headerNames = getHeaderNames(provider);
+    const required = Object.values(headerNames).join(', ');
+    throw new Error(`Missing required webhook signature header(s) for ${provider}: ${required}`);
+  }
+
+  const result = await verifyDetailedAsync(provider, payload, signatureOrHeaders, secret, options);
+  return result.valid;
+}
+
+/**
+ * Verify a webhook signature using WebCrypto and report why verification failed
+ *
+ * The async counterpart of verifyDetailed(). Missing signature headers are
+ * reported as a `missing_header` failure instead of throwing.
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body (string or bytes)
+ * @param signatureOrHeaders - The signature string OR request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns Promise resolving to the verification result
+ */
+export async function verifyDetailedAsync(
+  provider: Provider,
+  payload: string | Uint8Array,
+  signatureOrHeaders: string | Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): Promise<VerificationResult> {
+  const verifier = getVerifier(provider);
+  const sigData = extractSignature(provider, signatureOrHeaders);
+
+  if (sigData === null) {
+    return failure('missing_header');
+  }
+
+  // Try the primary secret first, then each additional secret in order
+  const secrets = await resolveSecretsAsync(provider, payload, signatureOrHeaders, sigData, secret, options);
+  if (!secrets.some(Boolean)) {
+    return failure('invalid_key');
+  }
+  let firstFailure: VerificationResult | undefined;
+
+  for (let i = 0; i < secrets.length; i++) {
+    if (!secrets[i]) continue;
+    const result = await verifier.verifyDetailedAsync(payload, sigData.signature, secrets[i], options);
+    if (result.valid) {
+      return checkReplayAsync(provider, payload, { ...result, secretIndex: i }, sigData, options);
+    }
+    // Report the primary secret's failure if none match
+    firstFailure ??= result;
+  }
+
+  return firstFailure!;
+}
+
+/**
+ * The parts of a WHATWG Fetch `Request` used by verifyRequest()
+ */
+export interface FetchRequest {
+  url: string;
+  method: string;
+  headers: { forEach(callback: (value: string, name: string) => void): void };
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Result of verifyRequest(), including the body that was read
+ */
+export interface VerifyRequestResult extends VerificationResult {
+  /** The raw request body (the request stream cannot be read again) */
+  body: Uint8Array;
+  /** Signature data extracted from the headers (unset if they are missing) */
+  signatureData?: SignatureData;
+}
+
+/**
+ * Verify a webhook delivered as a Fetch API `Request`
+ *
+ * For route handlers that receive a WHATWG `Request` (Hono, Next.js App
+ * Router, Remix, SvelteKit, Cloudflare Workers, Deno, Bun). The body is read
+ * once and returned with the result, so parse it from `result.body` instead of
+ * calling `request.json()`. `request.url` and `request.method` are passed as
+ * the `url` and `method` options for URL-signing providers unless set explicitly.
+ * Uses WebCrypto, like verifyDetailedAsync().
+ *
+ * @param provider - The webhook provider name
+ * @param request - The incoming request
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns Promise resolving to the verification result with the body and signature data
+ *
+ * @example
+ * ```typescript
+ * import { verifyRequest } from 'webhook-verify';
+ *
+ * // Next.js App Router: app/api/webhooks/stripe/route.ts
+ * export async function POST(request: Request) {
+ *   const result = await verifyRequest('stripe', request, process.env.STRIPE_WEBHOOK_SECRET!);
+ *   if (!result.valid) {
+ *     return new Response(result.reason, { status: 401 });
+ *   }
+ *
+ *   const event = JSON.parse(new TextDecoder().decode(result.body));
+ *   // ...
+ * }
+ * ```
+ */
+export async function verifyRequest(
+  provider: Provider,
+  request: FetchRequest,
+  secret: string | SecretResolver,
+  options?: VerifyOptions & { url?: string | string[]; method?: string }
+): Promise<VerifyRequestResult> {
+  getVerifier(provider);
+
+  const headers: Record<string, string> = {};
+  request.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+
+  const body = new Uint8Array(await request.arrayBuffer());
+  const signatureData = getSignature(provider, headers) ?? undefined;
+
+  const result = await verifyDetailedAsync(provider, body, headers, secret, {
+    url: request.url,
+    method: request.method,
+    ...options,
+  });
+
+  return { ...result, body, ...(signatureData && { signatureData }) };
+}
+
+/**
+ * Options for readAndVerify()
+ */
+export type ReadAndVerifyOptions = VerifyOptions & {
+  /** The full webhook URL, or candidate URLs, for URL-signing providers (default: reconstructed from the request) */
+  url?: string | string[];
+  /** The HTTP method (default: the request's) */
+  method?: string;
+  /** Maximum body size in bytes, before and after decompression (default: 1 MB) */
+  maxBodySize?: number;
+  /**
+   * Decode gzip, deflate and br bodies before verifying (default: whether the
+   * provider signs the decoded body: true for built-in providers, and for
+   * registered ones defined with `signedBody: 'decoded'`)
+   */
+  decompress?: boolean;
+};
+
+/**
+ * Result of readAndVerify(), including the body that was read
+ */
+export interface ReadAndVerifyResult extends VerificationResult {
+  /** The request body as verified, decoded if it was (empty if it was too large or could not be decoded) */
+  body: Buffer;
+  /** Signature data extracted from the headers (unset if they are missing) */
+  signatureData?: SignatureData;
+}
+
+/**
+ * Read a Node.js request body and verify the webhook
+ *
+ * For plain `node:http` servers and frameworks without raw body support. The
+ * body is streamed up to `maxBodySize` bytes: a larger Content-Length is
+ * rejected before reading, and reading stops as soon as the limit is passed
+ * (`payload_too_large`). Compressed bodies of providers that sign the decoded
+ * body are decoded according to Content-Encoding; an unsupported encoding then
+ * fails with `invalid_payload`.
+ * Uses WebCrypto, like verifyDetailedAsync().
+ *
+ * When the body is too large the request is left paused: send the response
+ * (e.g. 413) and let the connection close.
+ *
+ * @param provider - The webhook provider name
+ * @param req - The incoming request, not yet read
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options plus body size and decompression settings
+ * @returns Promise resolving to the verification result with the body and signature data
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from 'node:http';
+ * import { readAndVerify } from 'webhook-verify';
+ *
+ * createServer(async (req, res) => {
+ *   const result = await readAndVerify('github', req, process.env.GITHUB_WEBHOOK_SECRET!, {
+ *     maxBodySize: 512 * 1024,
+ *   });
+ *   if (!result.valid) {
+ *     res.writeHead(result.reason === 'payload_too_large' ? 413 : 401).end();
+ *     return;
+ *   }
+ *
+ *   const payload = JSON.parse(result.body.toString());
+ *   res.end('ok');
+ * }).listen(3000);
+ * ```
+ */
+export async function readAndVerify(
+  provider: Provider,
+  req: IncomingMessage,
+  secret: string | SecretResolver,
+  options?: ReadAndVerifyOptions
+): Promise<ReadAndVerifyResult> {
+  getVerifier(provider);
+
+  const { maxBodySize = 1024 * 1024, decompress = signsDecodedBody(provider), ...verifyOptions } = options ?? {};
+  const headers = req.headers as Headers;
+  const signatureData = getSignature(provider, headers) ?? undefined;
+
+  // Loaded on first use, so the edge entry point does not import zlib
+  const { readRequestBody } = await import('./utils/body.js');
+  const read = await readRequestBody(req, maxBodySize, decompress);
+  if ('reason' in read) {
+    return { ...failure(read.reason), body: Buffer.alloc(0), ...(signatureData && { signatureData }) };
+  }
+
+  const result = await verifyDetailedAsync(provider, read.body, headers, secret, {
+    url: requestUrl(req),
+    method: req.method,
+    ...verifyOptions,
+  });
+
+  return { ...result, body: read.body, ...(signatureData && { signatureData }) };
+}
+
+/**
+ * Sign a webhook payload the way a provider would and return its headers
+ *
+ * Produces authentic deliveries for integration tests and local tooling that
+ * round-trip through verify(). HMAC and JWT providers sign with the shared
+ * secret; Discord (Ed25519), SendGrid (ECDSA) and Paddle (RSA) sign with the
+ * private key matching the public key passed to verify().
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body (string or Buffer)
+ * @param secret - The webhook secret, or the private key for asymmetric providers
+ * @param options - Signing options (timestamp, url, method, message id)
+ * @returns The signature headers the provider would send (lowercase names)
+ * @throws Error if the provider is unknown, cannot sign, or a required option is missing
+ *
+ * @example
+ * ```typescript
+ * import { sign, verify } from 'webhook-verify';
+ *
+ * const body = JSON.stringify({ type: 'payment_intent.succeeded' });
+ * const headers = sign('stripe', body, 'whsec_test');
+ * // { 'stripe-signature': 't=1700000000,v1=5257a8...' }
+ *
+ * verify('stripe', body, headers, 'whsec_test'); // true
+ *
+ * // URL-signing providers need the endpoint URL
+ * sign('twilio', 'Body=Hello', authToken, { url: 'https://example.com/sms' });
+ * ```
+ */
+export function sign(
+  provider: Provider,
+  payload: string | Buffer,
+  secret: string,
+  options?: SignOptions
+): Record<string, string> {
+  return getVerifier(provider).sign(payload, secret, options);
+}
+
+/**
+ * Successful verifyAndParse() result, discriminated on `provider`
+ */
+export type VerifyAndParseSuccess<P extends Provider = Provider> = P extends Provider
+  ? VerificationResult & {
+      valid: true;
+      /** The provider that sent the webhook */
+      provider: P;
+      /** The parsed, provider-typed payload */
+      event: WebhookEvent<P>;
+      /** Signature data extracted from the headers */
+      signatureData: SignatureData;
+    }
+  : never;
+
+/**
+ * Failed verifyAndParse() result
+ */
+export interface VerifyAndParseFailure extends VerificationResult {
+  valid: false;
+  reason: VerificationFailureReason;
+}
+
+/**
+ * Result of verifyAndParse(): the typed event when valid, the failure reason otherwise
+ */
+export type VerifyAndParseResult<P extends Provider = Provider> = VerifyAndParseSuccess<P> | VerifyAndParseFailure;
+
+/**
+ * Parse the body of a verified webhook, turning parse errors into an `invalid_payload` failure
+ */
+function parseVerified<P extends Provider>(
+  provider: P,
+  body: string | Uint8Array,
+  headers: Headers,
+  result: VerificationResult
+): VerifyAndParseResult<P> {
+  if (!result.valid) {
+    return result as VerifyAndParseFailure;
+  }
+
+  const signatureData = getSignature(provider, headers)!;
+  const event = parseEvent(provider, body, headers, signatureData);
+  if (event === undefined) {
+    return failure('invalid_payload', result.timestamp) as VerifyAndParseFailure;
+  }
+
+  return { ...result, provider, event, signatureData } as VerifyAndParseResult<P>;
+}
+
+/**
+ * Verify a webhook and parse its body into the provider's event type
+ *
+ * Returns a failure result (never throws for a bad request) when the signature
+ * is invalid or the verified body cannot be parsed (`invalid_payload`):
+ * - stripe: the event object
+ * - github: `{ eventType, deliveryId, payload }`, typed by the X-GitHub-Event header
+ * - shopify: `{ topic, shopDomain, webhookId, apiVersion, payload }`
+ * - slack: the Events API envelope (`url_verification`, `event_callback`, `app_rate_limited`)
+ * - twilio: the URL-encoded form fields, or the parsed JSON body
+ * - other providers: the parsed JSON body (`unknown`)
+ *
+ * @param provider - The webhook provider name
+ * @param body - The raw request body (string or Buffer)
+ * @param headers - Request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns The verification result with the typed event when valid
+ *
+ * @example
+ * ```typescript
+ * import { verifyAndParse } from 'webhook-verify';
+ *
+ * const result = verifyAndParse('github', req.rawBody, req.headers, secret);
+ * if (!result.valid) {
+ *   return res.status(401).send(result.reason);
+ * }
+ *
+ * if (result.event.eventType === 'push') {
+ *   console.log(result.event.payload.ref); // typed as GitHubPushPayload
+ * }
+ * ```
+ */
+export function verifyAndParse<P extends Provider>(
+  provider: P,
+  body: string | Buffer,
+  headers: Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): VerifyAndParseResult<P> {
+  const result = verifyDetailed(provider, body, headers, secret, options);
+  return parseVerified(provider, body, headers, result);
+}
+
+/**
+ * Verify a webhook using WebCrypto and parse its body into the provider's event type
+ *
+ * The async counterpart of verifyAndParse().
+ *
+ * @param provider - The webhook provider name
+ * @param body - The raw request body (string or bytes)
+ * @param headers - Request headers object
+ * @param secret - The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request
+ * @param options - Provider-specific options (e.g., timestamp tolerance, additionalSecrets)
+ * @returns Promise resolving to the verification result with the typed event when valid
+ */
+export async function verifyAndParseAsync<P extends Provider>(
+  provider: P,
+  body: string | Uint8Array,
+  headers: Headers,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): Promise<VerifyAndParseResult<P>> {
+  const result = await verifyDetailedAsync(provider, body, headers, secret, options);
+  return parseVerified(provider, body, headers, result);
+}
+
+/**
+ * Secrets for verifyAny(), keyed by provider
+ * An array is tried in order (the first as primary secret, the rest as additionalSecrets).
+ */
+export type SecretsByProvider = Partial<Record<Provider, string | string[]>>;
+
+/**
+ * Result of verifyAny(), including the provider that was matched
+ */
+export interface VerifyAnyResult extends VerificationResult {
+  /** The provider whose signature was checked (unset if no configured provider matched the headers) */
+  provider?: Provider;
+}
+
+/**
+ * Detect the provider from the request headers and verify the webhook
+ *
+ * Providers are tried in the order ranked by detectProvider(), skipping those
+ * without a configured secret. The first valid result is returned; if none is
+ * valid, the failure for the best-ranked provider is returned.
+ *
+ * @param headers - Request headers object
+ * @param payload - The raw request body (string or Buffer)
+ * @param secretsByProvider - Secret(s) for each provider the endpoint accepts
+ * @param options - Options passed to every provider (e.g., url, tolerance, replayStore)
+ * @returns The verification result with the matched provider
+ *
+ * @example
+ * ```typescript
+ * import { verifyAny } from 'webhook-verify';
+ *
+ * app.post('/webhooks', express.raw({ type: () => true }), (req, res) => {
+ *   const result = verifyAny(req.headers, req.body, {
+ *     stripe: process.env.STRIPE_WEBHOOK_SECRET,
+ *     github: process.env.GITHUB_WEBHOOK_SECRET,
+ *     svix: [process.env.SVIX_SECRET, process.env.SVIX_OLD_SECRET],
+ *   });
+ *
+ *   if (!result.valid) {
+ *     return res.status(401).send(result.reason);
+ *   }
+ *   // Route on result.provider...
+ * });
+ * ```
+ */
+export function verifyAny(
+  headers: Headers,
+  payload: string | Buffer,
+  secretsByProvider: SecretsByProvider,
+  options?: VerifyOptions
+): VerifyAnyResult {
+  let firstFailure: VerifyAnyResult | undefined;
+
+  for (const { provider } of detectProvider(headers)) {
+    const secrets = secretsByProvider[provider];
+    if (!secrets || secrets.length === 0) {
+      continue;
+    }
+
+    const [secret, ...additionalSecrets] = typeof secrets === 'string' ? [secrets] : secrets;
+    const result = verifyDetailed(provider, payload, headers, secret, {
+      ...options,
+      additionalSecrets: [...additionalSecrets, ...(options?.additionalSecrets ?? [])],
+    });
+
+    if (result.valid) {
+      return { ...result, provider };
+    }
+    firstFailure ??= { ...result, provider };
+  }
+
+  return firstFailure ?? failure('missing_header');
+}
+
+/**
+ * Get a list of all supported providers
+ */
+export function getSupportedProviders(): Provider[] {
+  return getProviderNames();
+}
+
+/**
+ * Check if a provider is supported
+ */
+export function isProviderSupported(provider: string): provider is Provider {
+  return getProviderVerifier(provider) !== undefined;
+}
+
+// Re-export provider detection
+export { detectProvider } from './detect.js';
+
+export type { DetectedProvider } from './detect.js';
+
+// Re-export verification diagnostics
+export { diagnose } from './diagnose.js';
+
+export type { Diagnosis, DiagnosisMatch, PayloadVariant, SecretVariant } from './diagnose.js';
+
+// Re-export request URL reconstruction
+export { resolveRequestUrl, urlVariants } from './url.js';
+
+export type { ResolveRequestUrlOptions } from './url.js';
+
+// Re-export secret resolution
+export type { SecretResolver, SecretContext, SecretCandidates, RoutingFields } from './resolver.js';
+
+// Re-export parsed event types
+export type {
+  WebhookEvent,
+  WebhookEvents,
+  StripeEvent,
+  GitHubWebhookEvent,
+  GitHubPayloads,
+  GitHubPayload,
+  GitHubPingPayload,
+  GitHubPushPayload,
+  GitHubPullRequestPayload,
+  GitHubIssuesPayload,
+  GitHubIssueCommentPayload,
+  GitHubReleasePayload,
+  ShopifyWebhookEvent,
+  ShopifyTopic,
+  SlackEnvelope,
+  SlackUrlVerification,
+  SlackEventCallback,
+  SlackAppRateLimited,
+  SlackInteraction,
+  SlackSlashCommand,
+  SlackPayload,
+  TwilioParams,
+  TwilioJsonBody,
+} from './events.js';
+
+// Re-export replay protection
+export { createMemoryReplayStore } from './replay.js';
+
+export type { MemoryReplayStoreOptions } from './replay.js';
+
+// Re-export the security policy
+export { configure } from './policy.js';
+
+// Re-export runtime provider registration
+export { registerProvider } from './registry.js';
+export { defineHmacProvider } from './define.js';
+
+export type { HmacProvider, HmacProviderConfig, SignedPayloadContext } from './define.js';
+
+// Re-export types
+export type {
+  Provider,
+  BuiltInProvider,
+  CustomProviders,
+  ProviderDefinition,
+  SignedBody,
+  VerifyOptions,
+  SignOptions,
+  ReplayStore,
+  VerificationResult,
+  VerificationFailureReason,
+  SecurityPolicy,
+  PolicyViolation,
+  BaseOptions,
+  TimestampOptions,
+  TwilioOptions,
+  CrystallizeOptions,
+  SquareOptions,
+  HubSpotOptions,
+} from './types.js';
+
+// Re-export individual providers for direct access
+export * from './providers/index.js';
+
+// Re-export generic algorithm handlers
+export {
+  hmac,
+  ed25519,
+  rsa,
+  jwt,
+  timingSafeEqual,
+  validateTimestamp,
+} from './algorithms.js';
+
+export type {
+  HmacAlgorithm,
+  SignatureEncoding,
+  HmacOptions,
+  TimestampHmacOptions,
+  Ed25519Options,
+  RsaOptions,
+  JwtAlgorithm,
+  JwtOptions,
+  JwtSignOptions,
+  JwtVerificationResult,
+} from './algorithms.js';
+
+// Re-export key sets for the asymmetric handlers
+export { createKeySet } from './keyset.js';
+
+export type { JsonWebKey, JwksDocument, KeyResolver, KeySet, KeySetOptions } from './keyset.js';
+
+// Re-export header extraction helpers
+export { getSignature, getHeaderNames } from './headers.js';
+
+export type { SignatureData, Headers, HeaderExtractor } from './headers.js';
@@ -0,0 +1,273 @@
+import {
+  computeHmacHex,
+  computeHmacBase64,
+  secureCompare,
+  parseTimestamp,
+  checkTimestamp,
+} from './utils/crypto.js';
+import type { TimestampUnit } from './utils/crypto.js';
+import {
+  computeHmacHexAsync,
+  computeHmacBase64Async,
+  constantTimeEqual,
+  toUtf8String,
+} from './utils/webcrypto.js';
+import { getHeader } from './utils/headers.js';
+import { checkInputs, failure, success } from './utils/result.js';
+import { checkHashStrength, getTimestampWindow } from './policy.js';
+import type { HmacAlgorithm, SignatureEncoding } from './algorithms.js';
+import type { Headers, SignatureData } from './headers.js';
+import type {
+  ProviderDefinition,
+  ProviderVerifier,
+  SignOptions,
+  VerificationResult,
+  VerifyOptions,
+} from './types.js';
+
+/**
+ * Inputs available when building the signed string
+ */
+export interface SignedPayloadContext {
+  /** The raw request body as a UTF-8 string */
+  payload: string;
+  /** The timestamp from the timestamp header (if the provider sends one) */
+  timestamp?: string;
+  /** Provider-specific options passed to verify() or sign() */
+  options?: VerifyOptions | SignOptions;
+}
+
+/**
+ * Configuration for an HMAC-signed webhook provider
+ */
+export interface HmacProviderConfig {
+  /** Header carrying the signature (e.g., 'x-hub-signature-256') */
+  signatureHeader: string;
+  /** Header carrying the signed timestamp, if the provider sends one */
+  timestampHeader?: string;
+  /** Header carrying the event type, if the provider sends one */
+  eventHeader?: string;
+  /** Header carrying a unique delivery ID, if the provider sends one */
+  deliveryIdHeader?: string;
+  /** The HMAC algorithm (default: 'sha256') */
+  algorithm?: HmacAlgorithm;
+  /** The encoding of the signature (default: 'hex') */
+  encoding?: SignatureEncoding;
+  /** Prefix to strip from the signature if present (e.g., 'sha256=') */
+  prefix?: string;
+  /** Build the string that is signed (default: the raw body) */
+  signedPayload?: (context: SignedPayloadContext) => string;
+  /** Unit of the timestamp header (default: 'seconds') */
+  timestampUnit?: TimestampUnit;
+  /** Default maximum age of the webhook in seconds (default: 300) */
+  tolerance?: number;
+  /** Options that must be passed to verify() (e.g., ['url']) */
+  requiredOptions?: string[];
+  /** Header names returned by getHeaderNames() (default: derived from the headers above) */
+  headerNames?: Record<string, string>;
+}
+
+/**
+ * Provider produced by defineHmacProvider()
+ *
+ * Usable directly as a verifier, and as a definition for registerProvider().
+ */
+export type HmacProvider = ProviderVerifier & Pick<ProviderDefinition, 'extractHeaders' | 'headerNames'>;
+
+/**
+ * Define an HMAC-signed webhook provider from its signing scheme
+ *
+ * Produces the verifier (sync, detailed and async), a signer and the header extractor.
+ * When a timestamp header is configured, the extracted signature is formatted
+ * as "<signature>,t=<timestamp>" for verify().
+ *
+ * @param config - The provider's signing scheme
+ * @returns The provider verifier with header extraction
+ *
+ * @example
+ * ```typescript
+ * import { defineHmacProvider, registerProvider } from 'webhook-verify';
+ *
+ * // Signature over "<timestamp>.<body>", hex encoded, with a "v1=" prefix
+ * const acme = defineHmacProvider({
+ *   signatureHeader: 'x-acme-signature',
+ *   timestampHeader: 'x-acme-timestamp',
+ *   prefix: 'v1=',
+ *   signedPayload: ({ timestamp, payload }) => `${timestamp}.${payload}`,
+ * });
+ *
+ * registerProvider('acme', acme);
+ * ```
+ */
+export function defineHmacProvider(config: HmacProviderConfig): HmacProvider {
+  const {
+    signatureHeader,
+    timestampHeader,
+    eventHeader,
+    deliveryIdHeader,
+    algorithm = 'sha256',
+    encoding = 'hex',
+    prefix,
+    signedPayload,
+    timestampUnit = 'seconds',
+    tolerance: defaultTolerance = 300,
+    requiredOptions = [],
+  } = config;
+
+  const headerNames = config.headerNames ?? {
+    signature: signatureHeader.toLowerCase(),
+    ...(timestampHeader && { timestamp: timestampHeader.toLowerCase() }),
+    ...(eventHeader && { event: eventHeader.toLowerCase() }),
+  };
+
+  /**
+   * Parse the signature, check the timestamp and build the signed message
+   */
+  function prepare<P extends string | Uint8Array>(
+    payload: P,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): VerificationResult | { message: string | P; sig: string; ts?: number } {
+    const invalid = checkInputs(payload, signature, secret);
+    if (invalid) {
+      return invalid;
+    }
+
+    for (const name of requiredOptions) {
+      if (!(options as Record<string, unknown> | undefined)?.[name]) {
+        return failure('missing_option');
+      }
+    }
+
+    const weak = checkHashStrength(options, algorithm);
+    if (weak) {
+      return weak;
+    }
+
+    let sig = signature;
+    let timestamp: string | undefined;
+    let ts: number | undefined;
+
+    if (timestampHeader) {
+      // Parse signature format: "signature,t=timestamp"
+      const parts = signature.split(',t=');
+      if (parts.length !== 2 || !parts[0] || !parts[1]) {
+        return failure('malformed_signature');
+      }
+      [sig, timestamp] = parts;
+
+      const parsed = parseTimestamp(timestamp);
+      if (parsed === null) {
+        return failure('malformed_signature');
+      }
+      ts = timestampUnit === 'milliseconds' ? Math.floor(parsed / 1000) : parsed;
+
+      const expired = checkTimestamp(parsed, getTimestampWindow(options, defaultTolerance), timestampUnit);
+      if (expired) {
+        return failure(expired, ts);
+      }
+    }
+
+    // Handle both full header value and just the hash
+    if (prefix && sig.startsWith(prefix)) {
+      sig = sig.slice(prefix.length);
+    }
+    if (encoding === 'hex') {
+      sig = sig.toLowerCase();
+    }
+
+    const message = signedPayload
+      ? signedPayload({ payload: toUtf8String(payload), timestamp, options })
+      : payload;
+
+    return { message, sig, ts };
+  }
+
+  /**
+   * Compute the encoded HMAC of a message
+   */
+  function computeSignature(secret: string, message: string | Buffer): string {
+    return encoding === 'base64'
+      ? computeHmacBase64(algorithm, secret, message)
+      : computeHmacHex(algorithm, secret, message);
+  }
+
+  const provider: HmacProvider = {
+    headerNames,
+
+    extractHeaders(headers: Headers): SignatureData | null {
+      const signature = getHeader(headers, signatureHeader);
+      const timestamp = timestampHeader ? getHeader(headers, timestampHeader) : undefined;
+      if (!signature || (timestampHeader && !timestamp)) {
+        return null;
+      }
+
+      return {
+        // Format for verify(): "<sig>,t=<timestamp>" when a timestamp is signed
+        signature: timestampHeader ? `${signature},t=${timestamp}` : signature,
+        rawSignature: signature,
+        ...(timestampHeader && { timestamp }),
+        ...(eventHeader && { eventType: getHeader(headers, eventHeader) }),
+        ...(deliveryIdHeader && { deliveryId: getHeader(headers, deliveryIdHeader) }),
+      };
+    },
+
+    verify(payload, signature, secret, options?) {
+      return provider.verifyDetailed(payload, signature, secret, options).valid;
+    },
+
+    verifyDetailed(payload, signature, secret, options?) {
+      const prepared = prepare(payload, signature, secret, options);
+      if ('valid' in prepared) {
+        return prepared;
+      }
+
+      const computed = computeSignature(secret, prepared.message);
+
+      return secureCompare(computed, prepared.sig)
+        ? success(prepared.ts)
+        : failure('signature_mismatch', prepared.ts);
+    },
+
+    async verifyDetailedAsync(payload, signature, secret, options?) {
+      const prepared = prepare(payload, signature, secret, options);
+      if ('valid' in prepared) {
+        return prepared;
+      }
+
+      const computed =
+        encoding === 'base64'
+          ? await computeHmacBase64Async(algorithm, secret, prepared.message)
+          : await computeHmacHexAsync(algorithm, secret, prepared.message);
+
+      return constantTimeEqual(computed, prepared.sig)
+        ? success(prepared.ts)
+        : failure('signature_mismatch', prepared.ts);
+    },
+
+    sign(payload, secret, options = {}) {
+      for (const name of requiredOptions) {
+        if (!(options as Record<string, unknown>)[name]) {
+          throw new Error(`Signing requires ${name} option`);
+        }
+      }
+
+      const seconds = options.timestamp ?? Math.floor(Date.now() / 1000);
+      const timestamp = timestampHeader
+        ? String(timestampUnit === 'milliseconds' ? seconds * 1000 : seconds)
+        : undefined;
+
+      const message = signedPayload
+        ? signedPayload({ payload: toUtf8String(payload), timestamp, options })
+        : payload;
+
+      return {
+        [signatureHeader.toLowerCase()]: (prefix ?? '') + computeSignature(secret, message),
+        ...(timestampHeader && timestamp && { [timestampHeader.toLowerCase()]: timestamp }),
+      };
+    },
+  };
+
+  return provider;
+}
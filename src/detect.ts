@@ -0,0 +1,78 @@
+import { getProviderNames } from './registry.js';
+import { getSignature, getHeaderNames } from './headers.js';
+import type { Headers } from './headers.js';
+import { getHeader } from './utils/headers.js';
+import type { Provider } from './types.js';
+
+/**
+ * A provider whose headers are present on a request
+ */
+export interface DetectedProvider {
+  /** The provider name */
+  provider: Provider;
+  /** How strongly the headers point at this provider, from 0 to 1 */
+  confidence: number;
+  /** The provider's headers found on the request (lowercase) */
+  headers: string[];
+}
+
+/**
+ * Detect which provider(s) sent a webhook from its request headers
+ *
+ * Every provider whose required signature headers are present is returned,
+ * best match first. A header counts fully when it carries the provider's name
+ * (e.g. `stripe-signature`, `x-github-event`) and half when it is generic
+ * (e.g. `x-hub-signature`, `x-signature`); headers shared by several providers
+ * are split between them. Confidence is the sum, capped at 1.
+ *
+ * @param headers - Request headers object
+ * @returns Matching providers ranked by confidence (empty if none match)
+ *
+ * @example
+ * ```typescript
+ * import { detectProvider } from 'webhook-verify';
+ *
+ * detectProvider(req.headers);
+ * // GitHub: [{ provider: 'github', confidence: 1, headers: [...] },
+ * //          { provider: 'intercom', confidence: 0.5, headers: ['x-hub-signature'] }]
+ * // Svix:   [{ provider: 'svix', confidence: 1, ... }, { provider: 'clerk', confidence: 0.75, ... }]
+ * ```
+ */
+export function detectProvider(headers: Headers): DetectedProvider[] {
+  const candidates = getProviderNames();
+
+  // Count how many providers use each header, so shared headers weigh less
+  const usage = new Map<string, number>();
+  for (const provider of candidates) {
+    for (const name of new Set(Object.values(getHeaderNames(provider)))) {
+      usage.set(name, (usage.get(name) ?? 0) + 1);
+    }
+  }
+
+  const detected: DetectedProvider[] = [];
+
+  for (const provider of candidates) {
+    if (!getSignature(provider, headers)) {
+      continue;
+    }
+
+    const present = [...new Set(Object.values(getHeaderNames(provider)))].filter(
+      (name) => getHeader(headers, name) !== undefined
+    );
+
+    let score = 0;
+    for (const name of present) {
+      const weight = name.includes(provider.replace(/-/g, '')) ? 1 : 0.5;
+      score += weight / (usage.get(name) ?? 1);
+    }
+
+    detected.push({ provider, confidence: Math.min(1, score), headers: present });
+  }
+
+  return detected.sort(
+    (a, b) =>
+      b.confidence - a.confidence ||
+      b.headers.length - a.headers.length ||
+      a.provider.localeCompare(b.provider)
+  );
+}
@@ -0,0 +1,376 @@
+import { getProviderVerifier } from './registry.js';
+import { getSignature, getHeaderNames } from './headers.js';
+import type { Headers } from './headers.js';
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes, toUtf8String } from './utils/webcrypto.js';
+import { failure } from './utils/result.js';
+import { getTimestampWindow } from './policy.js';
+import type { Provider, VerificationResult, VerifyOptions } from './types.js';
+
+/**
+ * How the payload was changed in a diagnosis variant
+ *
+ * - `as_sent` - unchanged
+ * - `compact_json` - JSON re-serialized without whitespace
+ * - `pretty_json` - JSON re-serialized with 2-space indentation
+ * - `trailing_newline_added` / `trailing_newline_removed` - a final newline added or removed
+ */
+export type PayloadVariant =
+  | 'as_sent'
+  | 'compact_json'
+  | 'pretty_json'
+  | 'trailing_newline_added'
+  | 'trailing_newline_removed';
+
+/**
+ * How the secret was changed in a diagnosis variant
+ *
+ * - `as_given` - unchanged
+ * - `trimmed` - surrounding whitespace removed
+ * - `prefix_stripped` / `prefix_added` - the `whsec_` prefix removed or added
+ * - `hex_to_base64` - a hex secret re-encoded as base64
+ * - `base64_to_hex` - a base64 secret re-encoded as hex
+ */
+export type SecretVariant =
+  | 'as_given'
+  | 'trimmed'
+  | 'prefix_stripped'
+  | 'prefix_added'
+  | 'hex_to_base64'
+  | 'base64_to_hex';
+
+/**
+ * The variation of the inputs that verified
+ */
+export interface DiagnosisMatch {
+  /** How the payload was changed */
+  payload: PayloadVariant;
+  /** How the secret was changed (the secret itself is never reported) */
+  secret: SecretVariant;
+  /** The URL that verified, for URL-signing providers */
+  url?: string;
+  /** true if the signature only verified with the timestamp check disabled */
+  ignoresTimestamp: boolean;
+}
+
+/**
+ * Outcome of diagnose()
+ */
+export interface Diagnosis {
+  /** The webhook provider name */
+  provider: Provider;
+  /** The result of verifying the inputs as given */
+  result: VerificationResult;
+  /** The first variation of the inputs that verified, or null if none did */
+  match: DiagnosisMatch | null;
+  /** The signed timestamp and how far it is from now, for providers that sign one */
+  timestamp?: {
+    /** The signed timestamp (Unix seconds) */
+    value: number;
+    /** Seconds between the signed timestamp and now: positive if in the past, negative if in the future */
+    age: number;
+    /** The limit it was checked against, in seconds: maxAge if in the past, maxFutureSkew if in the future */
+    tolerance: number;
+  };
+  /** Human-readable explanations of the findings */
+  hints: string[];
+}
+
+/**
+ * Tolerance that disables timestamp checks when looking for a matching variation
+ */
+const NO_TOLERANCE = 1e12;
+
+/**
+ * Build the payload variations, skipping those identical to one already listed
+ */
+function payloadVariants(payload: string | Buffer): [PayloadVariant, string | Buffer][] {
+  const text = toUtf8String(payload);
+  const variants: [PayloadVariant, string | Buffer][] = [['as_sent', payload]];
+
+  try {
+    const parsed = JSON.parse(text);
+    variants.push(['compact_json', JSON.stringify(parsed)], ['pretty_json', JSON.stringify(parsed, null, 2)]);
+  } catch {
+    // Not JSON
+  }
+
+  if (/\r?\n$/.test(text)) {
+    variants.push(['trailing_newline_removed', text.replace(/\r?\n$/, '')]);
+  } else {
+    variants.push(['trailing_newline_added', `${text}\n`]);
+  }
+
+  const seen = new Set<string>();
+  return variants.filter(([, value]) => {
+    const key = toUtf8String(value);
+    return !seen.has(key) && seen.add(key);
+  });
+}
+
+/**
+ * Build the secret variations, skipping those identical to one already listed
+ */
+function secretVariants(secret: string): [SecretVariant, string][] {
+  const trimmed = secret.trim();
+  const bare = trimmed.replace(/^whsec_/, '');
+  const prefixed = trimmed.startsWith('whsec_');
+
+  const variants: [SecretVariant, string][] = [
+    ['as_given', secret],
+    ['trimmed', trimmed],
+    [prefixed ? 'prefix_stripped' : 'prefix_added', prefixed ? bare : `whsec_${trimmed}`],
+  ];
+
+  const hexBytes = /^([0-9a-f]{2})+$/i.test(bare) ? hexToBytes(bare) : null;
+  if (hexBytes) {
+    const base64 = bytesToBase64(hexBytes);
+    variants.push(['hex_to_base64', prefixed ? `whsec_${base64}` : base64]);
+  } else {
+    const base64Bytes = base64ToBytes(bare);
+    if (base64Bytes && base64Bytes.length > 0) {
+      variants.push(['base64_to_hex', bytesToHex(base64Bytes)]);
+    }
+  }
+
+  const seen = new Set<string>();
+  return variants.filter(([, value]) => value && !seen.has(value) && seen.add(value));
+}
+
+/**
+ * Build the URL variations of each candidate URL: scheme, default port, trailing slash and query string
+ */
+function alternateUrls(url: string | string[] | undefined): (string | undefined)[] {
+  if (!url || url.length === 0) {
+    return [undefined];
+  }
+  if (Array.isArray(url)) {
+    return [...new Set(url.flatMap((candidate) => alternateUrls(candidate)))];
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return [url];
+  }
+
+  const variants = new Set<string>([url]);
+  for (const protocol of [parsed.protocol, parsed.protocol === 'https:' ? 'http:' : 'https:']) {
+    const defaultPort = protocol === 'https:' ? '443' : '80';
+    for (const withPort of [false, true]) {
+      for (const trailingSlash of [false, true]) {
+        for (const withQuery of [true, false]) {
+          const path = parsed.pathname.replace(/\/$/, '') + (trailingSlash ? '/' : '');
+          const port = withPort ? `:${parsed.port || defaultPort}` : parsed.port ? `:${parsed.port}` : '';
+          const query = withQuery ? parsed.search : '';
+          variants.add(`${protocol}//${parsed.hostname}${port}${path || '/'}${query}`);
+        }
+      }
+    }
+  }
+
+  return [...variants];
+}
+
+/**
+ * Describe a matching variation
+ */
+function describeMatch(match: DiagnosisMatch, url: string | string[] | undefined): string[] {
+  const hints: string[] = [];
+
+  switch (match.payload) {
+    case 'compact_json':
+    case 'pretty_json':
+      hints.push(
+        `The signature matches the body re-serialized as ${match.payload === 'compact_json' ? 'compact' : 'pretty-printed'} JSON: ` +
+          'the body was parsed and serialized again before verifying. Verify the raw request bytes instead.'
+      );
+      break;
+    case 'trailing_newline_added':
+      hints.push('The signature matches the body with a trailing newline: it was stripped before verifying.');
+      break;
+    case 'trailing_newline_removed':
+      hints.push('The signature matches the body without its trailing newline: one was added before verifying.');
+      break;
+  }
+
+  switch (match.secret) {
+    case 'trimmed':
+      hints.push('The signature matches the secret with surrounding whitespace removed.');
+      break;
+    case 'prefix_stripped':
+      hints.push('The signature matches the secret without its "whsec_" prefix.');
+      break;
+    case 'prefix_added':
+      hints.push('The signature matches the secret with a "whsec_" prefix.');
+      break;
+    case 'hex_to_base64':
+      hints.push('The signature matches the secret re-encoded from hex to base64.');
+      break;
+    case 'base64_to_hex':
+      hints.push('The signature matches the secret re-encoded from base64 to hex.');
+      break;
+  }
+
+  const given = [url ?? []].flat();
+  if (match.url !== undefined && !given.includes(match.url)) {
+    hints.push(
+      `The signature matches the URL ${match.url} rather than ${given.join(', ')}: ` +
+        'check the scheme, port and path seen behind proxies (see resolveRequestUrl()).'
+    );
+  }
+
+  return hints;
+}
+
+/**
+ * Explain why a webhook signature failed to verify
+ *
+ * Re-runs the provider's verification under the usual mistakes: a body that
+ * was re-serialized as compact or pretty JSON or lost/gained a trailing
+ * newline, a secret with stray whitespace, with or without the `whsec_`
+ * prefix, or hex instead of base64 (and vice versa), a URL differing in
+ * scheme, port, trailing slash or query string, and a timestamp outside the
+ * tolerance. Reports the first variation that verifies and the clock skew.
+ *
+ * The secret is never included in the result, only the name of the change
+ * that made it match. Replay protection is not applied.
+ *
+ * @param provider - The webhook provider name
+ * @param payload - The raw request body as received (string or Buffer)
+ * @param headersOrSignature - The request headers object OR signature string
+ * @param secret - The webhook secret, API key, or public key
+ * @param options - Provider-specific options (e.g., url, tolerance)
+ * @returns The diagnosis: the original result, the matching variation and hints
+ *
+ * @example
+ * ```typescript
+ * import { diagnose } from 'webhook-verify';
+ *
+ * const diagnosis = diagnose('stripe', JSON.stringify(req.body), req.headers, secret);
+ * // diagnosis.match: { payload: 'compact_json', secret: 'as_given', ignoresTimestamp: false }
+ * // diagnosis.hints: ['The signature matches the body re-serialized as compact JSON: ...']
+ * ```
+ */
+export function diagnose(
+  provider: Provider,
+  payload: string | Buffer,
+  headersOrSignature: string | Headers,
+  secret: string,
+  options?: VerifyOptions
+): Diagnosis {
+  const verifier = getProviderVerifier(provider);
+  if (!verifier) {
+    throw new Error(`Unknown webhook provider: ${provider}`);
+  }
+
+  const signatureData =
+    typeof headersOrSignature === 'string' ? { signature: headersOrSignature } : getSignature(provider, headersOrSignature);
+
+  if (!signatureData) {
+    const expected = Object.values(getHeaderNames(provider)).join(', ');
+    return {
+      provider,
+      result: failure('missing_header'),
+      match: null,
+      hints: [`The signature header(s) are missing. ${provider} sends: ${expected}.`],
+    };
+  }
+
+  const baseOptions = { ...options, replayStore: undefined, additionalSecrets: undefined } as VerifyOptions;
+  const url = (options as { url?: string | string[] })?.url;
+  const window = getTimestampWindow(options);
+
+  const result = verifier.verifyDetailed(payload, signatureData.signature, secret, baseOptions);
+  const diagnosis: Diagnosis = { provider, result, match: null, hints: [] };
+
+  if (result.timestamp !== undefined) {
+    const age = Math.floor(window.now / 1000) - result.timestamp;
+    diagnosis.timestamp = {
+      value: result.timestamp,
+      age,
+      tolerance: age >= 0 ? window.maxAge : window.maxFutureSkew,
+    };
+  }
+
+  if (result.valid) {
+    diagnosis.match = {
+      payload: 'as_sent',
+      secret: 'as_given',
+      ...(typeof url === 'string' && { url }),
+      ignoresTimestamp: false,
+    };
+    diagnosis.hints.push('The signature is valid.');
+    return diagnosis;
+  }
+
+  if (result.reason === 'missing_option') {
+    diagnosis.hints.push(`${provider} signs the request URL: pass the full webhook URL as options.url.`);
+    return diagnosis;
+  }
+
+  if (result.reason === 'policy_violation') {
+    diagnosis.hints.push(
+      `The request was rejected by the security policy (${result.policyViolation}), before its signature was checked: ` +
+        'see configure() and the policy option.'
+    );
+    return diagnosis;
+  }
+
+  // Try every combination, with the timestamp check disabled so it cannot hide a match
+  search: for (const [payloadVariant, payloadValue] of payloadVariants(payload)) {
+    for (const [secretVariant, secretValue] of secretVariants(secret)) {
+      for (const urlValue of alternateUrls(url)) {
+        const relaxed = {
+          ...baseOptions,
+          tolerance: NO_TOLERANCE,
+          maxAge: NO_TOLERANCE,
+          maxFutureSkew: NO_TOLERANCE,
+          policy: { ...baseOptions.policy, maxTolerance: NO_TOLERANCE },
+          ...(urlValue && { url: urlValue }),
+        };
+        if (!verifier.verifyDetailed(payloadValue, signatureData.signature, secretValue, relaxed).valid) {
+          continue;
+        }
+
+        const ignoresTimestamp =
+          result.reason === 'timestamp_expired' || result.reason === 'timestamp_in_future'
+            ? !verifier.verifyDetailed(payloadValue, signatureData.signature, secretValue, {
+                ...baseOptions,
+                ...(urlValue && { url: urlValue }),
+              }).valid
+            : false;
+
+        diagnosis.match = {
+          payload: payloadVariant,
+          secret: secretVariant,
+          ...(urlValue && { url: urlValue }),
+          ignoresTimestamp,
+        };
+        break search;
+      }
+    }
+  }
+
+  if (diagnosis.match) {
+    diagnosis.hints.push(...describeMatch(diagnosis.match, url));
+  }
+
+  if (diagnosis.timestamp && Math.abs(diagnosis.timestamp.age) > diagnosis.timestamp.tolerance) {
+    const { age, tolerance } = diagnosis.timestamp;
+    diagnosis.hints.push(
+      `The signed timestamp is ${Math.abs(age)}s ${age > 0 ? 'old' : 'in the future'}, beyond the ${tolerance}s tolerance: ` +
+        (age > 0 ? 'the delivery is stale or was replayed, or ' : '') +
+        'the server clock is off.'
+    );
+  }
+
+  if (!diagnosis.match) {
+    diagnosis.hints.push(
+      `No variation of the body, secret${url ? ' or URL' : ''} verifies (${result.reason}): ` +
+        'check that the secret belongs to this endpoint and environment (e.g. test vs. live mode).'
+    );
+  }
+
+  return diagnosis;
+}
@@ -0,0 +1,91 @@
+/**
+ * webhook-verify for edge runtimes
+ *
+ * The async API on WebCrypto, for Cloudflare Workers, Vercel Edge, Deno and
+ * Bun. Nothing imported from here loads a Node.js built-in module (crypto,
+ * zlib, util), so bundlers do not need Node compatibility.
+ *
+ * Import from `webhook-verify/edge`. The sync verifiers, sign(), diagnose()
+ * and readAndVerify() need Node.js and are only exported by `webhook-verify`.
+ * Edge callers must use the `*Async` variants of the generic handlers (hmac,
+ * ed25519, rsa and jwt), such as `jwt.verifyAsync()`.
+ */
+
+export {
+  verifyAsync,
+  verifyDetailedAsync,
+  verifyRequest,
+  verifyAndParseAsync,
+  getSupportedProviders,
+  isProviderSupported,
+  detectProvider,
+  resolveRequestUrl,
+  urlVariants,
+  createMemoryReplayStore,
+  configure,
+  registerProvider,
+  defineHmacProvider,
+  createKeySet,
+  hmac,
+  ed25519,
+  rsa,
+  jwt,
+  getSignature,
+  getHeaderNames,
+} from './core.js';
+
+export type {
+  FetchRequest,
+  VerifyRequestResult,
+  VerifyAndParseResult,
+  VerifyAndParseSuccess,
+  VerifyAndParseFailure,
+  DetectedProvider,
+  ResolveRequestUrlOptions,
+  SecretResolver,
+  SecretContext,
+  SecretCandidates,
+  RoutingFields,
+  WebhookEvent,
+  WebhookEvents,
+  StripeEvent,
+  GitHubWebhookEvent,
+  GitHubPayloads,
+  GitHubPayload,
+  ShopifyWebhookEvent,
+  SlackPayload,
+  TwilioParams,
+  TwilioJsonBody,
+  MemoryReplayStoreOptions,
+  HmacProvider,
+  HmacProviderConfig,
+  SignedPayloadContext,
+  Provider,
+  BuiltInProvider,
+  CustomProviders,
+  ProviderDefinition,
+  SignedBody,
+  VerifyOptions,
+  ReplayStore,
+  VerificationResult,
+  VerificationFailureReason,
+  SecurityPolicy,
+  PolicyViolation,
+  HmacAlgorithm,
+  SignatureEncoding,
+  HmacOptions,
+  TimestampHmacOptions,
+  Ed25519Options,
+  RsaOptions,
+  JwtAlgorithm,
+  JwtOptions,
+  JwtVerificationResult,
+  JsonWebKey,
+  JwksDocument,
+  KeyResolver,
+  KeySet,
+  KeySetOptions,
+  SignatureData,
+  Headers,
+  HeaderExtractor,
+} from './core.js';
@@ -0,0 +1,359 @@
+import { getHeader } from './utils/headers.js';
+import { toUtf8String } from './utils/webcrypto.js';
+import type { Headers, SignatureData } from './headers.js';
+import type { Provider } from './types.js';
+
+/**
+ * Stripe event object
+ *
+ * @see https://docs.stripe.com/api/events/object
+ */
+export interface StripeEvent {
+  id: string;
+  object: 'event';
+  type: string;
+  api_version: string | null;
+  created: number;
+  livemode: boolean;
+  pending_webhooks: number;
+  /** Connected account the event belongs to (Stripe Connect) */
+  account?: string;
+  data: {
+    object: Record<string, unknown>;
+    previous_attributes?: Record<string, unknown>;
+  };
+  request: { id: string | null; idempotency_key: string | null } | null;
+}
+
+/**
+ * Fields shared by GitHub webhook payloads
+ */
+export interface GitHubPayload {
+  action?: string;
+  sender?: { id: number; login: string; type: string };
+  repository?: { id: number; name: string; full_name: string; private: boolean; html_url: string };
+  organization?: { id: number; login: string };
+  installation?: { id: number };
+  [key: string]: unknown;
+}
+
+/**
+ * GitHub `ping` payload, sent when a webhook is created
+ */
+export interface GitHubPingPayload extends GitHubPayload {
+  zen: string;
+  hook_id: number;
+}
+
+/**
+ * GitHub `push` payload
+ */
+export interface GitHubPushPayload extends GitHubPayload {
+  ref: string;
+  before: string;
+  after: string;
+  created: boolean;
+  deleted: boolean;
+  forced: boolean;
+  commits: { id: string; message: string; timestamp: string; url: string }[];
+  head_commit: { id: string; message: string; timestamp: string; url: string } | null;
+}
+
+/**
+ * GitHub `pull_request` payload
+ */
+export interface GitHubPullRequestPayload extends GitHubPayload {
+  action: string;
+  number: number;
+  pull_request: Record<string, unknown> & { id: number; number: number; title: string; state: string };
+}
+
+/**
+ * GitHub `issues` payload
+ */
+export interface GitHubIssuesPayload extends GitHubPayload {
+  action: string;
+  issue: Record<string, unknown> & { id: number; number: number; title: string; state: string };
+}
+
+/**
+ * GitHub `issue_comment` payload
+ */
+export interface GitHubIssueCommentPayload extends GitHubIssuesPayload {
+  comment: Record<string, unknown> & { id: number; body: string };
+}
+
+/**
+ * GitHub `release` payload
+ */
+export interface GitHubReleasePayload extends GitHubPayload {
+  action: string;
+  release: Record<string, unknown> & { id: number; tag_name: string; name: string | null };
+}
+
+/**
+ * GitHub payloads by event type (the X-GitHub-Event header)
+ *
+ * Augment this interface to type further events; deliveries of other event
+ * types are still returned, with the shared GitHubPayload fields.
+ */
+export interface GitHubPayloads {
+  ping: GitHubPingPayload;
+  push: GitHubPushPayload;
+  pull_request: GitHubPullRequestPayload;
+  issues: GitHubIssuesPayload;
+  issue_comment: GitHubIssueCommentPayload;
+  release: GitHubReleasePayload;
+}
+
+/**
+ * GitHub delivery: the event type, delivery ID and payload, discriminated on `eventType`
+ */
+export type GitHubWebhookEvent = {
+  [E in keyof GitHubPayloads]: { eventType: E; deliveryId?: string; payload: GitHubPayloads[E] };
+}[keyof GitHubPayloads];
+
+/**
+ * Common Shopify webhook topics (the X-Shopify-Topic header)
+ */
+export type ShopifyTopic =
+  | 'orders/create'
+  | 'orders/updated'
+  | 'orders/paid'
+  | 'orders/cancelled'
+  | 'orders/fulfilled'
+  | 'products/create'
+  | 'products/update'
+  | 'products/delete'
+  | 'customers/create'
+  | 'customers/update'
+  | 'customers/delete'
+  | 'app/uninstalled'
+  | 'customers/data_request'
+  | 'customers/redact'
+  | 'shop/redact'
+  | (string & {});
+
+/**
+ * Shopify delivery: the topic and shop from the headers, and the payload
+ */
+export interface ShopifyWebhookEvent {
+  topic: ShopifyTopic;
+  /** The shop that sent the webhook (X-Shopify-Shop-Domain) */
+  shopDomain?: string;
+  /** Unique delivery ID (X-Shopify-Webhook-Id) */
+  webhookId?: string;
+  /** Admin API version the payload is serialized with (X-Shopify-API-Version) */
+  apiVersion?: string;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Slack URL verification handshake, answered by echoing `challenge`
+ */
+export interface SlackUrlVerification {
+  type: 'url_verification';
+  token: string;
+  challenge: string;
+}
+
+/**
+ * Slack Events API callback wrapping a single event
+ */
+export interface SlackEventCallback {
+  type: 'event_callback';
+  token: string;
+  team_id: string;
+  api_app_id: string;
+  event: { type: string; event_ts?: string; [key: string]: unknown };
+  event_id: string;
+  event_time: number;
+  authorizations?: Record<string, unknown>[];
+  [key: string]: unknown;
+}
+
+/**
+ * Slack notice that events are being rate limited
+ */
+export interface SlackAppRateLimited {
+  type: 'app_rate_limited';
+  token: string;
+  team_id: string;
+  api_app_id: string;
+  minute_rate_limited: number;
+}
+
+/**
+ * Slack Events API envelope, discriminated on `type`
+ */
+export type SlackEnvelope = SlackUrlVerification | SlackEventCallback | SlackAppRateLimited;
+
+/**
+ * Slack interactivity payload (button clicks, modal submissions, shortcuts),
+ * sent form-encoded as JSON in the `payload` field; discriminated on `type`
+ */
+export interface SlackInteraction {
+  type:
+    | 'block_actions'
+    | 'block_suggestion'
+    | 'view_submission'
+    | 'view_closed'
+    | 'shortcut'
+    | 'message_action'
+    | 'interactive_message'
+    | 'dialog_submission';
+  token?: string;
+  api_app_id?: string;
+  team?: { id: string; domain?: string } | null;
+  user?: { id: string; [key: string]: unknown };
+  trigger_id?: string;
+  response_url?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Slack slash command, sent as form fields
+ */
+export interface SlackSlashCommand {
+  /** Slash commands have no `type`, which tells them apart from the other Slack payloads */
+  type?: undefined;
+  command: string;
+  text: string;
+  response_url: string;
+  trigger_id: string;
+  user_id: string;
+  team_id: string;
+  channel_id: string;
+  [key: string]: string | undefined;
+}
+
+/**
+ * Slack payload: an Events API envelope, an interaction or a slash command
+ */
+export type SlackPayload = SlackEnvelope | SlackInteraction | SlackSlashCommand;
+
+/**
+ * Twilio form parameters; repeated keys are collected into arrays
+ */
+export type TwilioParams = Record<string, string | string[]>;
+
+/**
+ * Twilio JSON body, sent by Studio, Event Streams and Conversations webhooks
+ * (signed with `bodySHA256` in the URL)
+ */
+export type TwilioJsonBody = Record<string, unknown> | unknown[];
+
+/**
+ * Parsed webhook payload types for providers with typed events
+ */
+export interface WebhookEvents {
+  stripe: StripeEvent;
+  github: GitHubWebhookEvent;
+  shopify: ShopifyWebhookEvent;
+  slack: SlackPayload;
+  twilio: TwilioParams | TwilioJsonBody;
+}
+
+/**
+ * Parsed webhook payload for a provider (the parsed JSON body for providers without typed events)
+ */
+export type WebhookEvent<P extends Provider> = P extends keyof WebhookEvents ? WebhookEvents[P] : unknown;
+
+/**
+ * Parse a JSON body, returning undefined if it is not valid JSON
+ */
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a URL-encoded form body, collecting repeated keys into arrays
+ */
+function parseForm(body: string): TwilioParams {
+  const params: TwilioParams = {};
+  for (const [key, value] of new URLSearchParams(body)) {
+    const existing = params[key];
+    if (existing === undefined) {
+      params[key] = value;
+    } else {
+      params[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+  }
+  return params;
+}
+
+/**
+ * Parse a verified webhook body into the provider's event type
+ * Returns undefined if the body does not have the provider's shape.
+ */
+export function parseEvent(
+  provider: Provider,
+  payload: string | Uint8Array,
+  headers: Headers,
+  signatureData: SignatureData
+): unknown {
+  const body = toUtf8String(payload);
+
+  switch (provider) {
+    case 'stripe': {
+      const event = parseJson(body);
+      return isObject(event) && typeof event.id === 'string' && typeof event.type === 'string'
+        ? event
+        : undefined;
+    }
+    case 'github': {
+      const data = parseJson(body);
+      if (!isObject(data) || !signatureData.eventType) {
+        return undefined;
+      }
+      return { eventType: signatureData.eventType, deliveryId: signatureData.deliveryId, payload: data };
+    }
+    case 'shopify': {
+      const data = parseJson(body);
+      if (!isObject(data) || !signatureData.eventType) {
+        return undefined;
+      }
+      return {
+        topic: signatureData.eventType,
+        shopDomain: getHeader(headers, 'x-shopify-shop-domain'),
+        webhookId: signatureData.deliveryId,
+        apiVersion: getHeader(headers, 'x-shopify-api-version'),
+        payload: data,
+      };
+    }
+    case 'slack': {
+      // Interactions and slash commands are form-encoded, Events API envelopes are JSON
+      if (!/^\s*\{/.test(body)) {
+        const fields = parseForm(body);
+        if (typeof fields.payload === 'string') {
+          const interaction = parseJson(fields.payload);
+          return isObject(interaction) && typeof interaction.type === 'string' ? interaction : undefined;
+        }
+        return typeof fields.command === 'string' ? fields : undefined;
+      }
+      const envelope = parseJson(body);
+      return isObject(envelope) && typeof envelope.type === 'string' ? envelope : undefined;
+    }
+    case 'twilio': {
+      // A form body never starts with "{" or "[", so JSON bodies are unambiguous
+      const data = /^\s*[[{]/.test(body) ? parseJson(body) : undefined;
+      return typeof data === 'object' && data !== null ? data : parseForm(body);
+    }
+    default: {
+      // Objects and arrays; a body of `null` or a bare value is not a webhook
+      const data = parseJson(body);
+      return typeof data === 'object' && data !== null ? data : undefined;
+    }
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Express middleware for webhook-verify
+ *
+ * Captures the raw request body itself, so no `express.raw()` wiring is
+ * needed, verifies the webhook and attaches the result to `req.webhook`.
+ *
+ * Import from `webhook-verify/express`. Express is not a dependency: the
+ * middleware works with any framework built on Node's `http` request and
+ * response objects (Express, Connect, Polka).
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { verifyAndParseAsync } from './index.js';
+import { signsDecodedBody } from './registry.js';
+import { readRequestBody } from './utils/body.js';
+import type { RequestBodyResult } from './utils/body.js';
+import { requestUrl } from './utils/request.js';
+import { failureStatus } from './utils/result.js';
+import type { Headers, SignatureData } from './headers.js';
+import type { SecretResolver } from './resolver.js';
+import type { WebhookEvent } from './events.js';
+import type { Provider, VerificationFailureReason, VerifyOptions } from './types.js';
+
+/**
+ * The verified webhook attached to `req.webhook`
+ */
+export interface VerifiedWebhook<P extends Provider = Provider> {
+  /** The webhook provider name */
+  provider: P;
+  /** The parsed, provider-typed payload (see verifyAndParse()) */
+  event: WebhookEvent<P>;
+  /** Signature data extracted from the headers */
+  signatureData: SignatureData;
+  /** The raw request body (decoded if it was sent compressed and the provider signs the decoded body) */
+  rawBody: Buffer;
+  /** Index of the secret that matched: 0 for the primary secret, 1+ for additionalSecrets */
+  secretIndex?: number;
+  /** Timestamp parsed from the signature (Unix seconds), for providers that sign one */
+  timestamp?: number;
+}
+
+/**
+ * Request properties read and set by the middleware (a subset of Express's `Request`)
+ */
+export interface WebhookRequest extends IncomingMessage {
+  /** Body set by an earlier body parser; used as the raw body if it is a Buffer or string */
+  body?: unknown;
+  /** Raw body captured by an earlier middleware (e.g. a `verify` hook of express.json()) */
+  rawBody?: unknown;
+  /** Original request URL, before Express strips the mount path */
+  originalUrl?: string;
+  /** Request protocol, as resolved by Express (honours the `trust proxy` setting) */
+  protocol?: string;
+  /** Request hostname, as resolved by Express (honours the `trust proxy` setting) */
+  hostname?: string;
+  /** The verified webhook, set before next() is called */
+  webhook?: VerifiedWebhook;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** The verified webhook, set by webhookMiddleware() */
+      webhook?: VerifiedWebhook;
+    }
+  }
+}
+
+/**
+ * Configuration for webhookMiddleware()
+ */
+export interface WebhookMiddlewareConfig<P extends Provider = Provider> {
+  /** The webhook provider name */
+  provider: P;
+  /** The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request */
+  secret: string | SecretResolver;
+  /**
+   * Provider-specific options. `url` and `method` default to the request's own,
+   * for providers that sign them (Twilio, Square, HubSpot, Crystallize).
+   */
+  options?: VerifyOptions & { url?: string | string[]; method?: string };
+  /** Maximum body size in bytes; larger requests get a 413 response (default: 1 MB) */
+  maxBodySize?: number;
+}
+
+/**
+ * Get the raw body from an earlier middleware, or read it from the request stream
+ * Returns undefined if a body parser already consumed the stream.
+ */
+async function getRawBody(
+  req: WebhookRequest,
+  maxBodySize: number,
+  decompress: boolean
+): Promise<RequestBodyResult | undefined> {
+  for (const body of [req.rawBody, req.body]) {
+    if (Buffer.isBuffer(body)) {
+      return { body };
+    }
+    if (typeof body === 'string') {
+      return { body: Buffer.from(body) };
+    }
+  }
+
+  if (req.readableEnded) {
+    return undefined;
+  }
+
+  return readRequestBody(req, maxBodySize, decompress);
+}
+
+/**
+ * Send a JSON error response
+ */
+function reject(res: ServerResponse, status: number, reason: VerificationFailureReason): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  if (status === 413) {
+    // The rest of the body was not read, so the connection cannot be reused
+    res.setHeader('connection', 'close');
+  }
+  res.end(JSON.stringify({ error: 'Webhook verification failed', reason }));
+}
+
+/**
+ * Create middleware that verifies webhooks from a provider
+ *
+ * Responds 400 when the signature headers are missing or malformed (or the
+ * body cannot be decoded or parsed), 401 when verification fails, and 413 when
+ * the body is larger than `maxBodySize`, with a JSON body `{ error, reason }`.
+ * On success `req.webhook` holds the parsed event and signature data, and
+ * next() is called. Compressed bodies (gzip, deflate, br) are decoded first.
+ *
+ * Register it before any body parser for the route. If a body parser already
+ * consumed the request without keeping the raw body, next() is called with an error.
+ *
+ * @param config - Provider, secret and verification options
+ * @returns Connect-style middleware `(req, res, next)`
+ *
+ * @example
+ * ```typescript
+ * import express from 'express';
+ * import { webhookMiddleware } from 'webhook-verify/express';
+ *
+ * const app = express();
+ *
+ * app.post(
+ *   '/webhooks/stripe',
+ *   webhookMiddleware({ provider: 'stripe', secret: process.env.STRIPE_WEBHOOK_SECRET! }),
+ *   (req, res) => {
+ *     console.log(req.webhook!.event);
+ *     res.sendStatus(200);
+ *   }
+ * );
+ *
+ * // URL-signing providers use the request URL (set `trust proxy` behind a load balancer)
+ * app.post('/webhooks/twilio', webhookMiddleware({ provider: 'twilio', secret: authToken }), handler);
+ * ```
+ */
+export function webhookMiddleware<P extends Provider>(
+  config: WebhookMiddlewareConfig<P>
+): (req: WebhookRequest, res: ServerResponse, next: (error?: unknown) => void) => void {
+  const { provider, secret, options, maxBodySize = 1024 * 1024 } = config;
+
+  const handle = async (req: WebhookRequest, res: ServerResponse): Promise<boolean> => {
+    const read = await getRawBody(req, maxBodySize, signsDecodedBody(provider));
+    if (read === undefined) {
+      throw new Error(
+        'webhookMiddleware() needs the raw request body: register it before body parsers for this route'
+      );
+    }
+    if ('reason' in read) {
+      reject(res, failureStatus(read.reason), read.reason);
+      return false;
+    }
+
+    const rawBody = read.body;
+
+    const result = await verifyAndParseAsync(provider, rawBody, req.headers as Headers, secret, {
+      url: requestUrl(req),
+      method: req.method,
+      ...options,
+    });
+
+    if (!result.valid) {
+      reject(res, failureStatus(result.reason), result.reason);
+      return false;
+    }
+
+    req.webhook = {
+      provider,
+      event: result.event,
+      signatureData: result.signatureData,
+      rawBody,
+      ...(result.secretIndex !== undefined && { secretIndex: result.secretIndex }),
+      ...(result.timestamp !== undefined && { timestamp: result.timestamp }),
+    } as VerifiedWebhook;
+    return true;
+  };
+
+  return (req, res, next) => {
+    handle(req, res).then((verified) => verified && next(), next);
+  };
+}
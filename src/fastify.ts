@@ -0,0 +1,170 @@
+/**
+ * Fastify plugin for webhook-verify
+ *
+ * Fastify parses JSON bodies before handlers run, which loses the exact bytes
+ * that were signed. This plugin replaces the body parsers of the scope it is
+ * registered in with a raw Buffer parser, and verifies every route in that
+ * scope that has a `webhook` route config before its handler runs.
+ *
+ * Import from `webhook-verify/fastify`. Fastify (4.23 or later) is a peer dependency.
+ */
+
+import type { FastifyPluginCallback, FastifyReply, FastifyRequest } from 'fastify';
+import { verifyAndParseAsync } from './index.js';
+import { failureStatus } from './utils/result.js';
+import type { Headers, SignatureData } from './headers.js';
+import type { SecretResolver } from './resolver.js';
+import type { WebhookEvent } from './events.js';
+import type { Provider, VerificationFailureReason, VerifyOptions } from './types.js';
+
+/**
+ * The verified webhook set on `request.webhook`
+ */
+export interface VerifiedWebhook<P extends Provider = Provider> {
+  /** The webhook provider name */
+  provider: P;
+  /** The parsed, provider-typed payload (see verifyAndParse()) */
+  event: WebhookEvent<P>;
+  /** Signature data extracted from the headers */
+  signatureData: SignatureData;
+  /** Index of the secret that matched: 0 for the primary secret, 1+ for additionalSecrets */
+  secretIndex?: number;
+  /** Timestamp parsed from the signature (Unix seconds), for providers that sign one */
+  timestamp?: number;
+}
+
+/**
+ * Per-route webhook configuration, set as `config.webhook` on the route
+ */
+export interface WebhookRouteConfig<P extends Provider = Provider> {
+  /** The webhook provider name */
+  provider: P;
+  /** The webhook secret, API key, or public key, or a resolver returning the secret(s) for the request */
+  secret: string | SecretResolver;
+  /**
+   * Provider-specific options. `url` and `method` default to the request's own,
+   * for providers that sign them (Twilio, Square, HubSpot, Crystallize).
+   */
+  options?: VerifyOptions & { url?: string | string[]; method?: string };
+}
+
+/**
+ * Options for the webhook-verify Fastify plugin
+ */
+export interface WebhookPluginOptions {
+  /** Maximum body size in bytes for the raw body parser (default: the server's bodyLimit) */
+  bodyLimit?: number;
+  /**
+   * Send the reply for a rejected webhook. Defaults to a 400 (malformed request)
+   * or 401 (failed verification) response with a JSON body `{ error, reason }`.
+   */
+  onRejected?: (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    reason: VerificationFailureReason
+  ) => unknown;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    /** The verified webhook, set by webhook-verify for routes with a `webhook` config */
+    webhook: VerifiedWebhook | null;
+  }
+
+  interface FastifyContextConfig {
+    /** Verify this route's requests with webhook-verify */
+    webhook?: WebhookRouteConfig;
+  }
+}
+
+/**
+ * Send the default rejection reply
+ */
+function defaultOnRejected(_request: FastifyRequest, reply: FastifyReply, reason: VerificationFailureReason) {
+  return reply.code(failureStatus(reason)).send({ error: 'Webhook verification failed', reason });
+}
+
+/**
+ * Fastify plugin verifying webhook routes
+ *
+ * Register it inside the scope that holds your webhook routes, so other routes
+ * keep their JSON parser. In that scope `request.body` is the raw Buffer. For
+ * routes with a `config.webhook` setting, requests are verified in a
+ * `preValidation` hook; rejected requests get the `onRejected` reply, and
+ * verified ones reach the handler with `request.webhook` set.
+ *
+ * @example
+ * ```typescript
+ * import Fastify from 'fastify';
+ * import webhookVerify from 'webhook-verify/fastify';
+ *
+ * const app = Fastify();
+ *
+ * app.register(
+ *   async (webhooks) => {
+ *     await webhooks.register(webhookVerify);
+ *
+ *     webhooks.post(
+ *       '/stripe',
+ *       { config: { webhook: { provider: 'stripe', secret: process.env.STRIPE_WEBHOOK_SECRET! } } },
+ *       async (request) => {
+ *         const event = request.webhook!.event;
+ *         return { received: true };
+ *       }
+ *     );
+ *   },
+ *   { prefix: '/webhooks' }
+ * );
+ * ```
+ */
+export const webhookVerify: FastifyPluginCallback<WebhookPluginOptions> = (fastify, opts, done) => {
+  const { bodyLimit, onRejected = defaultOnRejected } = opts;
+
+  fastify.removeAllContentTypeParsers();
+  fastify.addContentTypeParser('*', { parseAs: 'buffer', bodyLimit }, (_request, body, parsed) => {
+    parsed(null, body);
+  });
+
+  if (!fastify.hasRequestDecorator('webhook')) {
+    fastify.decorateRequest('webhook', null);
+  }
+
+  fastify.addHook('preValidation', async (request, reply) => {
+    const config = request.routeOptions.config.webhook;
+    if (!config) {
+      return;
+    }
+
+    const rawBody = Buffer.isBuffer(request.body) ? request.body : Buffer.alloc(0);
+    // Fastify 4 has no request.host; its hostname still includes the port
+    const host = request.host ?? request.hostname;
+    const result = await verifyAndParseAsync(config.provider, rawBody, request.headers as Headers, config.secret, {
+      url: `${request.protocol}://${host}${request.url}`,
+      method: request.method,
+      ...config.options,
+    });
+
+    if (!result.valid) {
+      await onRejected(request, reply, result.reason);
+      return reply;
+    }
+
+    request.webhook = {
+      provider: config.provider,
+      event: result.event,
+      signatureData: result.signatureData,
+      ...(result.secretIndex !== undefined && { secretIndex: result.secretIndex }),
+      ...(result.timestamp !== undefined && { timestamp: result.timestamp }),
+    };
+  });
+
+  done();
+};
+
+// Apply to the scope the plugin is registered in, like fastify-plugin does
+Object.assign(webhookVerify, {
+  [Symbol.for('skip-override')]: true,
+  [Symbol.for('fastify.display-name')]: 'webhook-verify',
+});
+
+export default webhookVerify;
@@ -1,4 +1,17 @@
-import type { Provider } from './types.js';
+import { getHeader } from './utils/headers.js';
+import {
+  github,
+  intercom,
+  linear,
+  mailchimp,
+  segment,
+  shopify,
+  square,
+  typeform,
+  vercel,
+  zendesk,
+} from './providers/index.js';
+import type { BuiltInProvider, Provider } from './types.js';
 
 /**
  * Extracted signature data from request headers
@@ -10,10 +23,12 @@ export interface SignatureData {
   rawSignature?: string;
   /** Timestamp (if applicable) */
   timestamp?: string;
-  /** Message ID (for Svix-based providers) */
+  /** Message ID (for Svix and Standard Webhooks providers) */
   messageId?: string;
   /** Event type (if available in headers) */
   eventType?: string;
+  /** Unique delivery ID (if available in headers); replay protection uses it when the provider signs it (Svix, Clerk, Standard Webhooks) */
+  deliveryId?: string;
 }
 
 /**
@@ -22,48 +37,23 @@ export interface SignatureData {
 export type Headers = Record<string, string | string[] | undefined>;
 
 /**
- * Get header value (handles case-insensitivity and arrays)
+ * Function that extracts signature data from request headers
  */
-function getHeader(headers: Headers, name: string): string | undefined {
-  const nameLower = name.toLowerCase();
-
-  // Search through all headers case-insensitively
-  for (const [key, value] of Object.entries(headers)) {
-    if (key.toLowerCase() === nameLower) {
-      // Handle array values
-      if (Array.isArray(value)) {
-        return value[0];
-      }
-      return value;
-    }
-  }
-
-  return undefined;
-}
+export type HeaderExtractor = (headers: Headers) => SignatureData | null;
 
 /**
  * Header configurations for each provider
  */
-const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | null> = {
+const providerHeaders: Record<BuiltInProvider, HeaderExtractor> = {
   stripe: (headers) => {
     const signature = getHeader(headers, 'stripe-signature');
     if (!signature) return null;
     return { signature, rawSignature: signature };
   },
 
-  github: (headers) => {
-    const signature = getHeader(headers, 'x-hub-signature-256');
-    const event = getHeader(headers, 'x-github-event');
-    if (!signature) return null;
-    return { signature, rawSignature: signature, eventType: event };
-  },
+  github: github.extractHeaders,
 
-  shopify: (headers) => {
-    const signature = getHeader(headers, 'x-shopify-hmac-sha256');
-    const topic = getHeader(headers, 'x-shopify-topic');
-    if (!signature) return null;
-    return { signature, rawSignature: signature, eventType: topic };
-  },
+  shopify: shopify.extractHeaders,
 
   slack: (headers) => {
     const signature = getHeader(headers, 'x-slack-signature');
@@ -95,17 +85,9 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
     };
   },
 
-  linear: (headers) => {
-    const signature = getHeader(headers, 'linear-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  linear: linear.extractHeaders,
 
-  vercel: (headers) => {
-    const signature = getHeader(headers, 'x-vercel-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  vercel: vercel.extractHeaders,
 
   svix: (headers) => {
     const signature = getHeader(headers, 'svix-signature');
@@ -118,6 +100,7 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
       rawSignature: signature,
       timestamp,
       messageId,
+      deliveryId: messageId,
     };
   },
 
@@ -145,17 +128,9 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
     return { signature, rawSignature: signature };
   },
 
-  intercom: (headers) => {
-    const signature = getHeader(headers, 'x-hub-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  intercom: intercom.extractHeaders,
 
-  mailchimp: (headers) => {
-    const signature = getHeader(headers, 'x-mailchimp-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  mailchimp: mailchimp.extractHeaders,
 
   gitlab: (headers) => {
     const token = getHeader(headers, 'x-gitlab-token');
@@ -164,11 +139,7 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
     return { signature: token, rawSignature: token, eventType: event };
   },
 
-  typeform: (headers) => {
-    const signature = getHeader(headers, 'typeform-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  typeform: typeform.extractHeaders,
 
   crystallize: (headers) => {
     const signature = getHeader(headers, 'x-crystallize-signature');
@@ -176,43 +147,104 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
     return { signature, rawSignature: signature };
   },
 
-  zendesk: (headers) => {
-    const signature = getHeader(headers, 'x-zendesk-webhook-signature');
-    const timestamp = getHeader(headers, 'x-zendesk-webhook-signature-timestamp');
-    if (!signature || !timestamp) return null;
-    // Format for verify(): "signature,t=timestamp"
-    return {
-      signature: `${signature},t=${timestamp}`,
-      rawSignature: signature,
-      timestamp,
-    };
-  },
+  zendesk: zendesk.extractHeaders,
 
-  square: (headers) => {
-    const signature = getHeader(headers, 'x-square-hmacsha256-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
-  },
+  square: square.extractHeaders,
 
   hubspot: (headers) => {
     const signature = getHeader(headers, 'x-hubspot-signature-v3');
     const timestamp = getHeader(headers, 'x-hubspot-request-timestamp');
-    if (!signature || !timestamp) return null;
-    // Format for verify(): "signature,t=timestamp"
+    if (signature && timestamp) {
+      // Format for verify(): "signature,t=timestamp"
+      return {
+        signature: `${signature},t=${timestamp}`,
+        rawSignature: signature,
+        timestamp,
+      };
+    }
+
+    // v1 and v2 signatures, sent by older apps and workflow webhooks
+    const legacySignature = getHeader(headers, 'x-hubspot-signature');
+    if (!legacySignature) return null;
+    const version = getHeader(headers, 'x-hubspot-signature-version') ?? 'v1';
+    // Format for verify(): "signature,v=version"
+    return { signature: `${legacySignature},v=${version}`, rawSignature: legacySignature };
+  },
+
+  segment: segment.extractHeaders,
+
+  'standard-webhooks': (headers) => {
+    const signature = getHeader(headers, 'webhook-signature');
+    const timestamp = getHeader(headers, 'webhook-timestamp');
+    const messageId = getHeader(headers, 'webhook-id');
+    if (!signature || !timestamp || !messageId) return null;
+    // Format for verify(): "<sig>,t=<timestamp>,id=<messageId>"
     return {
-      signature: `${signature},t=${timestamp}`,
+      signature: `${signature},t=${timestamp},id=${messageId}`,
       rawSignature: signature,
       timestamp,
+      messageId,
+      deliveryId: messageId,
     };
   },
+};
 
-  segment: (headers) => {
-    const signature = getHeader(headers, 'x-signature');
-    if (!signature) return null;
-    return { signature, rawSignature: signature };
+/**
+ * Header names for each provider
+ */
+const providerHeaderNames: Record<BuiltInProvider, Record<string, string>> = {
+  stripe: { signature: 'stripe-signature' },
+  github: github.headerNames,
+  shopify: shopify.headerNames,
+  slack: { signature: 'x-slack-signature', timestamp: 'x-slack-request-timestamp' },
+  twilio: { signature: 'x-twilio-signature' },
+  discord: { signature: 'x-signature-ed25519', timestamp: 'x-signature-timestamp' },
+  linear: linear.headerNames,
+  vercel: vercel.headerNames,
+  svix: { signature: 'svix-signature', timestamp: 'svix-timestamp', id: 'svix-id' },
+  clerk: { signature: 'svix-signature', timestamp: 'svix-timestamp', id: 'svix-id' },
+  sendgrid: { signature: 'x-twilio-email-event-webhook-signature', timestamp: 'x-twilio-email-event-webhook-timestamp' },
+  paddle: { signature: 'paddle-signature' },
+  intercom: intercom.headerNames,
+  mailchimp: mailchimp.headerNames,
+  gitlab: { token: 'x-gitlab-token', event: 'x-gitlab-event' },
+  typeform: typeform.headerNames,
+  crystallize: { signature: 'x-crystallize-signature' },
+  zendesk: zendesk.headerNames,
+  square: square.headerNames,
+  hubspot: {
+    signature: 'x-hubspot-signature-v3',
+    timestamp: 'x-hubspot-request-timestamp',
+    legacySignature: 'x-hubspot-signature',
+    version: 'x-hubspot-signature-version',
   },
+  segment: segment.headerNames,
+  'standard-webhooks': { signature: 'webhook-signature', timestamp: 'webhook-timestamp', id: 'webhook-id' },
 };
 
+/**
+ * Header extraction for the providers added with registerProvider()
+ */
+const customHeaders = new Map<string, { extractor: HeaderExtractor; headerNames: Record<string, string> }>();
+
+/**
+ * Register header extraction for a custom provider
+ */
+export function registerHeaders(
+  provider: Provider,
+  extractor: HeaderExtractor,
+  headerNames: Record<string, string>
+): void {
+  customHeaders.set(provider, { extractor, headerNames });
+}
+
+/**
+ * Check if a name belongs to a built-in provider
+ */
+function isBuiltIn(provider: string): provider is BuiltInProvider {
+  return Object.hasOwn(providerHeaders, provider);
+}
+
 /**
  * Extract signature data from request headers for a specific provider
  *
@@ -245,7 +277,7 @@ const providerHeaders: Record<Provider, (headers: Headers) => SignatureData | nu
  * ```
  */
 export function getSignature(provider: Provider, headers: Headers): SignatureData | null {
-  const extractor = providerHeaders[provider];
+  const extractor = isBuiltIn(provider) ? providerHeaders[provider] : customHeaders.get(provider)?.extractor;
 
   if (!extractor) {
     throw new Error(`Unknown webhook provider: ${provider}`);
@@ -259,6 +291,7 @@ export function getSignature(provider: Provider, headers: Headers): SignatureDat
  *
  * @param provider - The webhook provider name
  * @returns Object with header names for this provider
+ * @throws Error if the provider is not supported
  *
  * @example
  * ```typescript
@@ -270,29 +303,11 @@ export function getSignature(provider: Provider, headers: Headers): SignatureDat
  * ```
  */
 export function getHeaderNames(provider: Provider): Record<string, string> {
-  const headerMap: Record<Provider, Record<string, string>> = {
-    stripe: { signature: 'stripe-signature' },
-    github: { signature: 'x-hub-signature-256', event: 'x-github-event' },
-    shopify: { signature: 'x-shopify-hmac-sha256', topic: 'x-shopify-topic' },
-    slack: { signature: 'x-slack-signature', timestamp: 'x-slack-request-timestamp' },
-    twilio: { signature: 'x-twilio-signature' },
-    discord: { signature: 'x-signature-ed25519', timestamp: 'x-signature-timestamp' },
-    linear: { signature: 'linear-signature' },
-    vercel: { signature: 'x-vercel-signature' },
-    svix: { signature: 'svix-signature', timestamp: 'svix-timestamp', id: 'svix-id' },
-    clerk: { signature: 'svix-signature', timestamp: 'svix-timestamp', id: 'svix-id' },
-    sendgrid: { signature: 'x-twilio-email-event-webhook-signature', timestamp: 'x-twilio-email-event-webhook-timestamp' },
-    paddle: { signature: 'paddle-signature' },
-    intercom: { signature: 'x-hub-signature' },
-    mailchimp: { signature: 'x-mailchimp-signature' },
-    gitlab: { token: 'x-gitlab-token', event: 'x-gitlab-event' },
-    typeform: { signature: 'typeform-signature' },
-    crystallize: { signature: 'x-crystallize-signature' },
-    zendesk: { signature: 'x-zendesk-webhook-signature', timestamp: 'x-zendesk-webhook-signature-timestamp' },
-    square: { signature: 'x-square-hmacsha256-signature' },
-    hubspot: { signature: 'x-hubspot-signature-v3', timestamp: 'x-hubspot-request-timestamp' },
-    segment: { signature: 'x-signature' },
-  };
-
-  return headerMap[provider];
+  const headerNames = isBuiltIn(provider) ? providerHeaderNames[provider] : customHeaders.get(provider)?.headerNames;
+
+  if (!headerNames) {
+    throw new Error(`Unknown webhook provider: ${provider}`);
+  }
+
+  return headerNames;
 }
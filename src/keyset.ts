@@ -0,0 +1,195 @@
+/**
+ * A public key in JSON Web Key format (RFC 7517)
+ */
+export interface JsonWebKey {
+  /** Key type: 'RSA', 'EC' or 'OKP' */
+  kty: string;
+  /** Key ID, matched against the `kid` of a token or the `kid` option */
+  kid?: string;
+  /** Algorithm the key is restricted to (e.g., 'RS256') */
+  alg?: string;
+  /** Intended use; keys with a use other than 'sig' are skipped */
+  use?: string;
+  /** Curve of EC and OKP keys (e.g., 'P-256', 'Ed25519') */
+  crv?: string;
+  [parameter: string]: unknown;
+}
+
+/**
+ * A JSON Web Key Set document, e.g. the body of a `/.well-known/jwks.json` endpoint
+ */
+export interface JwksDocument {
+  keys: JsonWebKey[];
+}
+
+/**
+ * Callback fetching the key(s) for a key ID (undefined when the signature names none)
+ * Return undefined or an empty array when no key is known.
+ */
+export type KeyResolver = (
+  kid: string | undefined
+) => Promise<JsonWebKey | JsonWebKey[] | null | undefined>;
+
+/**
+ * Options for createKeySet()
+ */
+export interface KeySetOptions {
+  /** Seconds to cache the keys returned by a resolver (default: 600) */
+  ttl?: number;
+}
+
+/**
+ * A set of public keys selected by key ID, accepted by the jwt, ed25519 and
+ * rsa handlers in place of a single key
+ */
+export interface KeySet {
+  /** The keys for a key ID (all keys when undefined), calling the resolver on a cache miss */
+  getKeys(kid?: string): Promise<JsonWebKey[]>;
+  /** The keys for a key ID from the document or cache, or undefined when they must be resolved first */
+  getCachedKeys(kid?: string): JsonWebKey[] | undefined;
+}
+
+/**
+ * A resolver result cached for a key ID
+ */
+interface CacheEntry {
+  expiresAt: number;
+  keys?: JsonWebKey[];
+  pending?: Promise<JsonWebKey[]>;
+}
+
+/**
+ * Create a key set from a JWKS document or a key resolver
+ *
+ * With a document, keys are picked by `kid`; a signature without a key ID is
+ * checked against every key. With a resolver, its results are cached per key
+ * ID for `ttl` seconds, and concurrent lookups of the same key ID share one
+ * call. Unknown key IDs and rejected lookups are not cached, so a key added
+ * by the sender is picked up on its first use. Rejections are passed on to
+ * the caller.
+ *
+ * Keys from a resolver are only available to the sync verifiers once cached,
+ * so use the async verifiers (or call getKeys() at startup) with a resolver.
+ *
+ * @param source - A JWKS document, or a function fetching the key(s) for a key ID
+ * @param options - Cache options
+ * @returns A key set for the jwt, ed25519 and rsa handlers
+ *
+ * @example
+ * ```typescript
+ * import { jwt, createKeySet } from 'webhook-verify';
+ *
+ * // From a JWKS document
+ * const keys = createKeySet(jwksDocument);
+ * jwt.verify(token, keys, { algorithms: ['RS256'] });
+ *
+ * // From a resolver, cached for an hour
+ * const remoteKeys = createKeySet(async (kid) => {
+ *   const res = await fetch('https://events.example.com/.well-known/jwks.json');
+ *   const { keys } = await res.json();
+ *   return keys.find((key) => key.kid === kid);
+ * }, { ttl: 3600 });
+ * await jwt.verifyAsync(token, remoteKeys, { algorithms: ['ES256'] });
+ * ```
+ */
+export function createKeySet(source: JwksDocument | KeyResolver, options: KeySetOptions = {}): KeySet {
+  if (typeof source !== 'function') {
+    const select = (kid?: string) => source.keys.filter((key) => kid === undefined || key.kid === kid);
+    return {
+      getKeys: async (kid) => select(kid),
+      getCachedKeys: select,
+    };
+  }
+
+  const { ttl = 600 } = options;
+  const cache = new Map<string, CacheEntry>();
+
+  const lookup = (kid: string | undefined): CacheEntry | undefined => {
+    const entry = cache.get(kid ?? '');
+    if (entry && entry.expiresAt <= Date.now()) {
+      cache.delete(kid ?? '');
+      return undefined;
+    }
+    return entry;
+  };
+
+  return {
+    getKeys(kid) {
+      const entry = lookup(kid);
+      if (entry) {
+        return entry.keys ? Promise.resolve(entry.keys) : entry.pending!;
+      }
+
+      const pending = source(kid).then(
+        (resolved) => {
+          const keys = [resolved ?? []].flat();
+          if (keys.length > 0) {
+            cache.set(kid ?? '', { expiresAt: Date.now() + ttl * 1000, keys });
+          } else {
+            cache.delete(kid ?? '');
+          }
+          return keys;
+        },
+        (error: unknown) => {
+          cache.delete(kid ?? '');
+          throw error;
+        }
+      );
+      cache.set(kid ?? '', { expiresAt: Date.now() + ttl * 1000, pending });
+      return pending;
+    },
+
+    getCachedKeys(kid) {
+      return lookup(kid)?.keys;
+    },
+  };
+}
+
+/**
+ * Key type and curve each signature algorithm needs ('RS1' is RSA-SHA1)
+ */
+const KEY_TYPES: Record<string, { kty: string; crv?: string }> = {
+  RS1: { kty: 'RSA' },
+  RS256: { kty: 'RSA' },
+  PS256: { kty: 'RSA' },
+  ES256: { kty: 'EC', crv: 'P-256' },
+  EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+};
+
+/**
+ * Keep the keys that may verify a signature made with the algorithm (by JWS name)
+ */
+function usableKeys(keys: JsonWebKey[], algorithm: string): JsonWebKey[] {
+  const type = KEY_TYPES[algorithm];
+  return keys.filter(
+    (key) =>
+      type !== undefined &&
+      key.kty === type.kty &&
+      (type.crv === undefined || key.crv === type.crv) &&
+      (key.alg === undefined || key.alg === algorithm) &&
+      (key.use === undefined || key.use === 'sig')
+  );
+}
+
+/**
+ * The keys of a set that may verify a signature, for the sync verifiers
+ * @throws Error if the keys for the key ID are not cached yet
+ */
+export function getVerificationKeys(keySet: KeySet, kid: string | undefined, algorithm: string): JsonWebKey[] {
+  const keys = keySet.getCachedKeys(kid);
+  if (keys === undefined) {
+    throw new Error('Key sets with a resolver require the async verifiers until the key is cached');
+  }
+  return usableKeys(keys, algorithm);
+}
+
+/**
+ * The keys of a set that may verify a signature, for the async verifiers
+ */
+export async function getVerificationKeysAsync(
+  keySet: KeySet,
+  kid: string | undefined,
+  algorithm: string
+): Promise<JsonWebKey[]> {
+  return usableKeys(await keySet.getKeys(kid), algorithm);
+}
@@ -0,0 +1,111 @@
+import { failure } from './utils/result.js';
+import { toTimestampWindow } from './utils/crypto.js';
+import type { TimestampWindow } from './utils/crypto.js';
+import type { PolicyViolation, SecurityPolicy, TimestampOptions, VerificationResult, VerifyOptions } from './types.js';
+
+/**
+ * A security policy with every check set
+ */
+interface ResolvedPolicy {
+  requireTimestamp: boolean;
+  maxTolerance: number;
+  minHashStrength: NonNullable<SecurityPolicy['minHashStrength']>;
+  rejectLegacySchemes: boolean;
+}
+
+/**
+ * Relative strength of the hashes used in signatures
+ */
+const HASH_STRENGTH: Record<string, number> = { sha1: 1, sha256: 2, sha384: 3, sha512: 4 };
+
+/**
+ * Policy set with configure(), applied to every verification
+ */
+let globalPolicy: SecurityPolicy = {};
+
+/**
+ * Set the security policy applied to every verification
+ *
+ * Replaces the policy set by an earlier call; `configure({})` turns every check
+ * off again. The `policy` option of a single call takes precedence.
+ *
+ * @param policy - The checks to apply
+ *
+ * @example
+ * ```typescript
+ * import { configure, verifyDetailed } from 'webhook-verify';
+ *
+ * // Mandatory timestamps, tolerance of at most 5 minutes, SHA-256 or better,
+ * // no legacy schemes
+ * configure({ strict: true });
+ *
+ * // Strict, but still accept Twilio's SHA-1 signatures
+ * configure({ strict: true, minHashStrength: 'sha1' });
+ *
+ * const result = verifyDetailed('slack', body, signatureWithoutTimestamp, secret);
+ * // { valid: false, reason: 'policy_violation', policyViolation: 'missing_timestamp' }
+ * ```
+ */
+export function configure(policy: SecurityPolicy): void {
+  globalPolicy = { ...policy };
+}
+
+/**
+ * The policy for a call: the `policy` option over the global policy, with strict defaults filled in
+ */
+function resolvePolicy(options?: VerifyOptions): ResolvedPolicy {
+  const policy = { ...globalPolicy, ...options?.policy };
+  const strict = policy.strict ?? false;
+
+  return {
+    requireTimestamp: policy.requireTimestamp ?? strict,
+    maxTolerance: policy.maxTolerance ?? (strict ? 300 : Infinity),
+    minHashStrength: policy.minHashStrength ?? (strict ? 'sha256' : 'sha1'),
+    rejectLegacySchemes: policy.rejectLegacySchemes ?? strict,
+  };
+}
+
+/**
+ * Build a failed verification result for a policy check
+ */
+export function policyFailure(violation: PolicyViolation, timestamp?: number): VerificationResult {
+  return { ...failure('policy_violation', timestamp), policyViolation: violation };
+}
+
+/**
+ * The timestamp window for a call: the `tolerance`, `maxAge`, `maxFutureSkew`
+ * and `clock` options (or the provider's default tolerance), with each side
+ * lowered to the policy's `maxTolerance`
+ */
+export function getTimestampWindow(options?: VerifyOptions, defaultTolerance: number = 300): TimestampWindow {
+  const window = toTimestampWindow(options as TimestampOptions | undefined, defaultTolerance);
+  const { maxTolerance } = resolvePolicy(options);
+
+  return {
+    ...window,
+    maxAge: Math.min(window.maxAge, maxTolerance),
+    maxFutureSkew: Math.min(window.maxFutureSkew, maxTolerance),
+  };
+}
+
+/**
+ * Whether the policy requires providers that send a signed timestamp to have one, and to check it
+ */
+export function requiresTimestamp(options?: VerifyOptions): boolean {
+  return resolvePolicy(options).requireTimestamp;
+}
+
+/**
+ * Check the hash of a signature scheme against the policy's `minHashStrength`
+ */
+export function checkHashStrength(options: VerifyOptions | undefined, hash: string): VerificationResult | null {
+  const { minHashStrength } = resolvePolicy(options);
+  return HASH_STRENGTH[hash] < HASH_STRENGTH[minHashStrength] ? policyFailure('weak_hash') : null;
+}
+
+/**
+ * Check a legacy signature scheme against the policy's `rejectLegacySchemes`
+ */
+export function checkLegacyScheme(options?: VerifyOptions): VerificationResult | null {
+  return resolvePolicy(options).rejectLegacySchemes ? policyFailure('legacy_scheme') : null;
+}
@@ -14,4 +14,16 @@ export const clerk: ProviderVerifier = {
     // Clerk uses Svix under the hood
     return svix.verify(payload, signature, secret, options);
   },
+
+  verifyDetailed(payload, signature, secret, options?) {
+    return svix.verifyDetailed(payload, signature, secret, options);
+  },
+
+  verifyDetailedAsync(payload, signature, secret, options?) {
+    return svix.verifyDetailedAsync(payload, signature, secret, options);
+  },
+
+  sign(payload, secret, options?) {
+    return svix.sign(payload, secret, options);
+  },
 };
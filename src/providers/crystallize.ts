@@ -1,46 +1,64 @@
-import { createHmac } from 'crypto';
-import type { ProviderVerifier, CrystallizeOptions } from '../types.js';
+import { computeHmacHex, secureCompare } from '../utils/crypto.js';
+import { computeHmacHexAsync, constantTimeEqual, toUtf8String } from '../utils/webcrypto.js';
+import { failure, success } from '../utils/result.js';
+import { jwt } from '../algorithms.js';
+import type { JwtOptions, JwtVerificationResult } from '../algorithms.js';
+import { acceptUrlCandidates } from '../url.js';
+import type { ProviderVerifier, CrystallizeOptions, VerificationResult, VerifyOptions } from '../types.js';
 
 /**
- * Decode base64url string
+ * Check the inputs before verifying the JWT, and build the JWT checks (Crystallize signs with HS256 only)
  */
-function base64UrlDecode(str: string): string {
-  // Convert base64url to base64
-  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
-  // Add padding if needed
-  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
-  return Buffer.from(padded, 'base64').toString('utf8');
-}
+function checkOptions(
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { url: string; method: string; jwtOptions: JwtOptions } {
+  const opts = options as CrystallizeOptions | undefined;
 
-/**
- * Verify JWT signature using HMAC-SHA256
- */
-function verifyJwt(token: string, secret: string): { valid: boolean; payload?: Record<string, unknown> } {
-  const parts = token.split('.');
-  if (parts.length !== 3) {
-    return { valid: false };
+  if (!opts?.url) {
+    return failure('missing_option');
+  }
+  if (!signature) {
+    return failure('missing_header');
+  }
+  if (!secret) {
+    return failure('invalid_key');
   }
 
-  const [headerB64, payloadB64, signatureB64] = parts;
+  return {
+    url: opts.url as string,
+    method: opts.method || 'POST',
+    jwtOptions: { algorithms: ['HS256'], maxAge: opts.maxAge, clock: opts.clock },
+  };
+}
 
-  // Verify signature
-  const signatureInput = `${headerB64}.${payloadB64}`;
-  const expectedSignature = createHmac('sha256', secret)
-    .update(signatureInput)
-    .digest('base64url');
+/**
+ * Build the data whose HMAC the verified JWT carries
+ */
+function checkClaims(
+  verified: JwtVerificationResult,
+  payload: string | Uint8Array,
+  url: string,
+  method: string
+): VerificationResult | { dataToHash: string; expectedHmac: string; ts?: number } {
+  // Report the issue time as the webhook timestamp
+  const ts = verified.timestamp;
 
-  // Compare signatures (timing-safe would be better, but JWT libraries don't typically use it)
-  if (signatureB64 !== expectedSignature) {
-    return { valid: false };
+  // Extract HMAC from JWT payload
+  const expectedHmac = verified.payload?.hmac;
+  if (typeof expectedHmac !== 'string') {
+    return failure('malformed_signature', ts);
   }
 
-  // Parse payload
-  try {
-    const payload = JSON.parse(base64UrlDecode(payloadB64));
-    return { valid: true, payload };
-  } catch {
-    return { valid: false };
-  }
+  // Create the data object to hash
+  const dataToHash = JSON.stringify({
+    url,
+    method,
+    body: toUtf8String(payload),
+  });
+
+  return { dataToHash, expectedHmac, ts };
 }
 
 /**
@@ -49,9 +67,12 @@ function verifyJwt(token: string, secret: string): { valid: boolean; payload?: R
  * Crystallize uses JWT (HS256) containing an HMAC of the request data.
  * Header: X-Crystallize-Signature
  *
+ * The token's `exp` is checked against options.clock (default: now);
+ * options.maxAge also limits the age of its `iat`.
+ *
  * @see https://crystallize.com/learn/developer-guides/api-overview/signature-verification
  */
-export const crystallize: ProviderVerifier = {
+export const crystallize: ProviderVerifier = acceptUrlCandidates({
   verify(payload, signature, secret, options) {
     const opts = options as CrystallizeOptions | undefined;
 
@@ -59,42 +80,71 @@ export const crystallize: ProviderVerifier = {
       throw new Error('Crystallize verification requires url option');
     }
 
-    const method = opts.method || 'POST';
-    const body = typeof payload === 'string' ? payload : payload.toString('utf8');
+    return crystallize.verifyDetailed(payload, signature, secret, options).valid;
+  },
 
-    // Verify the JWT
-    const { valid, payload: jwtPayload } = verifyJwt(signature, secret);
-    if (!valid || !jwtPayload) {
-      return false;
+  verifyDetailed(payload, signature, secret, options) {
+    const checked = checkOptions(signature, secret, options);
+    if ('valid' in checked) {
+      return checked;
     }
 
-    // Check JWT expiration
-    if (jwtPayload.exp && typeof jwtPayload.exp === 'number') {
-      const now = Math.floor(Date.now() / 1000);
-      if (now > jwtPayload.exp) {
-        return false;
-      }
+    // Verify the JWT
+    const verified = jwt.verify(signature, secret, checked.jwtOptions);
+    if (!verified.valid) {
+      return verified;
     }
 
-    // Extract HMAC from JWT payload
-    const expectedHmac = jwtPayload.hmac;
-    if (typeof expectedHmac !== 'string') {
-      return false;
+    const claims = checkClaims(verified, payload, checked.url, checked.method);
+    if ('valid' in claims) {
+      return claims;
     }
 
-    // Create the data object to hash
-    const dataToHash = JSON.stringify({
-      url: opts.url,
-      method: method,
-      body: body,
-    });
-
     // Compute SHA256 hash
-    const computedHmac = createHmac('sha256', secret)
-      .update(dataToHash)
-      .digest('hex');
+    const computedHmac = computeHmacHex('sha256', secret, claims.dataToHash);
 
     // Compare HMACs
-    return computedHmac === expectedHmac;
+    return secureCompare(computedHmac, claims.expectedHmac)
+      ? success(claims.ts)
+      : failure('signature_mismatch', claims.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, secret, options) {
+    const checked = checkOptions(signature, secret, options);
+    if ('valid' in checked) {
+      return checked;
+    }
+
+    const verified = await jwt.verifyAsync(signature, secret, checked.jwtOptions);
+    if (!verified.valid) {
+      return verified;
+    }
+
+    const claims = checkClaims(verified, payload, checked.url, checked.method);
+    if ('valid' in claims) {
+      return claims;
+    }
+
+    const computedHmac = await computeHmacHexAsync('sha256', secret, claims.dataToHash);
+
+    return constantTimeEqual(computedHmac, claims.expectedHmac)
+      ? success(claims.ts)
+      : failure('signature_mismatch', claims.ts);
+  },
+
+  sign(payload, secret, options?) {
+    if (!options?.url) {
+      throw new Error('Crystallize signing requires url option');
+    }
+
+    const iat = options.timestamp ?? Math.floor(Date.now() / 1000);
+    const hmac = computeHmacHex(
+      'sha256',
+      secret,
+      JSON.stringify({ url: options.url, method: options.method || 'POST', body: toUtf8String(payload) })
+    );
+
+    // JWT (HS256) carrying the HMAC of the request data
+    return { 'x-crystallize-signature': jwt.sign({ hmac, iat, exp: iat + 300 }, secret) };
   },
-};
+});
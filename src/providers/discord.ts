@@ -1,5 +1,64 @@
-import { verifyEd25519 } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import { importEd25519PublicKey, verifyEd25519, signEd25519, parseTimestamp, checkTimestamp } from '../utils/crypto.js';
+import { importEd25519PublicKeyAsync, verifyEd25519Async, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow, policyFailure, requiresTimestamp } from '../policy.js';
+import type { ProviderVerifier, VerificationResult, VerifyOptions } from '../types.js';
+
+/**
+ * Parse the Discord signature, check the timestamp when the policy requires it, and build the signed message
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  publicKey: string,
+  options?: VerifyOptions
+): VerificationResult | { message: string; sig: string; ts?: number } {
+  const invalid = checkInputs(payload, signature, publicKey);
+  if (invalid) {
+    return invalid;
+  }
+
+  // Parse signature and timestamp
+  let sig: string | undefined;
+  let timestamp: string | undefined;
+
+  if (signature.includes(',')) {
+    const parts = signature.split(',');
+    for (const part of parts) {
+      if (part.startsWith('t=')) {
+        timestamp = part.slice(2);
+      } else {
+        sig = part;
+      }
+    }
+  } else {
+    sig = signature;
+  }
+
+  if (!timestamp && requiresTimestamp(options)) {
+    return policyFailure('missing_timestamp');
+  }
+
+  if (!sig || !timestamp) {
+    return failure('malformed_signature');
+  }
+
+  const ts = parseTimestamp(timestamp) ?? undefined;
+
+  // Discord does not document a tolerance, so the timestamp is only checked under a policy
+  if (requiresTimestamp(options)) {
+    if (ts === undefined) {
+      return failure('malformed_signature');
+    }
+    const expired = checkTimestamp(ts, getTimestampWindow(options));
+    if (expired) {
+      return failure(expired, ts);
+    }
+  }
+
+  // Build the message to verify: timestamp + body
+  return { message: timestamp + toUtf8String(payload), sig, ts };
+}
 
 /**
  * Discord webhook/interaction verification
@@ -11,41 +70,54 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  * The signature is computed over timestamp + body.
  *
  * For this library, pass signature in format: "<signature>,t=<timestamp>"
- * The secret should be the application's public key.
+ * The secret should be the application's public key. The timestamp is checked
+ * against the tolerance when the security policy requires timestamps.
  *
  * @see https://discord.com/developers/docs/interactions/receiving-and-responding#security-and-authorization
  */
 export const discord: ProviderVerifier = {
   verify(payload, signature, publicKey, options?) {
-    if (!payload || !signature || !publicKey) {
-      return false;
+    return discord.verifyDetailed(payload, signature, publicKey, options).valid;
+  },
+
+  verifyDetailed(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    // Parse signature and timestamp
-    let sig: string | undefined;
-    let timestamp: string | undefined;
-
-    if (signature.includes(',')) {
-      const parts = signature.split(',');
-      for (const part of parts) {
-        if (part.startsWith('t=')) {
-          timestamp = part.slice(2);
-        } else {
-          sig = part;
-        }
-      }
-    } else {
-      sig = signature;
+    const key = importEd25519PublicKey(publicKey);
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    if (!sig || !timestamp) {
-      return false;
+    return verifyEd25519(key, prepared.sig, prepared.message)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
+    }
+
+    const key = await importEd25519PublicKeyAsync(publicKey);
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    // Build the message to verify
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const message = timestamp + payloadString;
+    return (await verifyEd25519Async(key, prepared.sig, prepared.message))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  sign(payload, privateKey, options?) {
+    const timestamp = String(options?.timestamp ?? Math.floor(Date.now() / 1000));
 
-    return verifyEd25519(publicKey, sig, message);
+    return {
+      'x-signature-ed25519': signEd25519(privateKey, timestamp + toUtf8String(payload)),
+      'x-signature-timestamp': timestamp,
+    };
   },
 };
@@ -1,5 +1,4 @@
-import { computeHmacHex, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * GitHub webhook verification
@@ -9,19 +8,11 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries
  */
-export const github: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    // Handle both full header value and just the hash
-    const expectedSig = signature.startsWith('sha256=')
-      ? signature.slice(7)
-      : signature;
-
-    const computedSig = computeHmacHex('sha256', secret, payload);
-
-    return secureCompare(computedSig, expectedSig.toLowerCase());
-  },
-};
+export const github = defineHmacProvider({
+  signatureHeader: 'x-hub-signature-256',
+  eventHeader: 'x-github-event',
+  deliveryIdHeader: 'x-github-delivery',
+  algorithm: 'sha256',
+  encoding: 'hex',
+  prefix: 'sha256=',
+});
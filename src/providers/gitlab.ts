@@ -1,4 +1,6 @@
 import { secureCompare } from '../utils/crypto.js';
+import { constantTimeEqual } from '../utils/webcrypto.js';
+import { failure, success } from '../utils/result.js';
 import type { ProviderVerifier } from '../types.js';
 
 /**
@@ -10,12 +12,35 @@ import type { ProviderVerifier } from '../types.js';
  * @see https://docs.gitlab.com/ee/user/project/integrations/webhooks.html#validate-payloads-by-using-a-secret-token
  */
 export const gitlab: ProviderVerifier = {
-  verify(_payload, signature, secret) {
-    if (!signature || !secret) {
-      return false;
+  verify(payload, signature, secret) {
+    return gitlab.verifyDetailed(payload, signature, secret).valid;
+  },
+
+  verifyDetailed(_payload, signature, secret) {
+    if (!signature) {
+      return failure('missing_header');
+    }
+    if (!secret) {
+      return failure('invalid_key');
     }
 
     // GitLab simply compares the token from the header with the secret
-    return secureCompare(signature, secret);
+    return secureCompare(signature, secret) ? success() : failure('signature_mismatch');
+  },
+
+  async verifyDetailedAsync(_payload, signature, secret) {
+    if (!signature) {
+      return failure('missing_header');
+    }
+    if (!secret) {
+      return failure('invalid_key');
+    }
+
+    return constantTimeEqual(signature, secret) ? success() : failure('signature_mismatch');
+  },
+
+  sign(_payload, secret) {
+    // GitLab sends the secret token itself
+    return { 'x-gitlab-token': secret };
   },
 };
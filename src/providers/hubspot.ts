@@ -1,67 +1,155 @@
-import { createHmac } from 'crypto';
-import { secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { computeHashHex, computeHmacBase64, secureCompare, parseTimestamp, checkTimestamp } from '../utils/crypto.js';
+import { computeHashHexAsync, computeHmacBase64Async, constantTimeEqual, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { acceptUrlCandidates } from '../url.js';
+import { checkLegacyScheme, getTimestampWindow } from '../policy.js';
+import type { ProviderVerifier, VerificationResult, VerifyOptions } from '../types.js';
 
 /**
- * HubSpot webhook verification (v3)
+ * Parse the HubSpot signature, check the timestamp and build the signed payload
+ *
+ * v3 signatures are an HMAC of the payload; v1 and v2 ("legacy") signatures are
+ * a plain SHA-256 of the secret followed by the payload.
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { signedPayload: string; sig: string; ts?: number; legacy: boolean } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  // Parse signature format: "signature,t=timestamp" (v3) or "signature,v=version" (v1, v2)
+  // The method and url come from options
+  const parts = signature.split(',');
+  let sig = parts[0];
+  let timestamp: string | undefined;
+  let version = 'v3';
+
+  for (const part of parts.slice(1)) {
+    if (part.startsWith('t=')) {
+      timestamp = part.slice(2);
+    } else if (part.startsWith('v=')) {
+      version = part.slice(2).toLowerCase();
+    }
+  }
+
+  const opts = options as { url?: string; method?: string };
+  const url = opts?.url;
+  const method = opts?.method ?? 'POST';
+
+  if (version === 'v1' || version === 'v2') {
+    if (!sig) {
+      return failure('malformed_signature');
+    }
+
+    const legacy = checkLegacyScheme(options);
+    if (legacy) {
+      return legacy;
+    }
+    if (version === 'v2' && !url) {
+      return failure('missing_option');
+    }
+
+    // v1: secret + body; v2: secret + method + uri + body
+    const signedPayload =
+      version === 'v1' ? secret + toUtf8String(payload) : secret + method + url + toUtf8String(payload);
+    return { signedPayload, sig: sig.toLowerCase(), legacy: true };
+  }
+
+  if (version !== 'v3' || !sig || !timestamp) {
+    return failure('malformed_signature');
+  }
+
+  if (!url) {
+    return failure('missing_option');
+  }
+
+  const timestampMs = parseTimestamp(timestamp);
+  if (timestampMs === null) {
+    return failure('malformed_signature');
+  }
+  const ts = Math.floor(timestampMs / 1000);
+
+  // Validate timestamp (HubSpot uses milliseconds)
+  const expired = checkTimestamp(timestampMs, getTimestampWindow(options), 'milliseconds');
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  // Signed payload: method + uri + body + timestamp
+  return { signedPayload: method + url + toUtf8String(payload) + timestamp, sig, ts, legacy: false };
+}
+
+/**
+ * HubSpot webhook verification (v1, v2 and v3)
  *
  * HubSpot v3 signatures use HMAC-SHA256 base64 encoded.
  * The signature is computed over: requestMethod + requestUri + requestBody + timestamp
  *
+ * Older apps and workflow webhooks send v1 or v2 signatures instead: a hex
+ * SHA-256 of clientSecret + requestBody (v1) or clientSecret + requestMethod +
+ * requestUri + requestBody (v2), without a timestamp.
+ *
  * Headers:
  * - X-HubSpot-Signature-V3: base64-encoded HMAC-SHA256 signature
  * - X-HubSpot-Request-Timestamp: Unix timestamp in milliseconds
+ * - X-HubSpot-Signature: hex SHA-256 signature (v1, v2), used when no v3 signature is sent
+ * - X-HubSpot-Signature-Version: "v1" or "v2"
  *
- * Requires options: { url, method }
+ * Requires options: { url, method } (except for v1)
  *
  * @see https://developers.hubspot.com/docs/api/webhooks/validating-requests
  */
-export const hubspot: ProviderVerifier = {
+export const hubspot: ProviderVerifier = acceptUrlCandidates({
   verify(payload, signature, secret, options) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
+    return hubspot.verifyDetailed(payload, signature, secret, options).valid;
+  },
 
-    // Parse signature format: "signature,t=timestamp,m=method,u=url" or just "signature,t=timestamp"
-    // When using headers extraction, we format as: signature,t=timestamp
-    // The method and url come from options
-    const parts = signature.split(',');
-    let sig = parts[0];
-    let timestamp: string | undefined;
-
-    for (const part of parts.slice(1)) {
-      if (part.startsWith('t=')) {
-        timestamp = part.slice(2);
-      }
+  verifyDetailed(payload, signature, secret, options) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    if (!sig || !timestamp) {
-      return false;
-    }
+    // v3: base64(HMACSHA256(method + uri + body + timestamp)); v1/v2: hex(SHA256(secret + ...))
+    const computed = prepared.legacy
+      ? computeHashHex('sha256', prepared.signedPayload)
+      : computeHmacBase64('sha256', secret, prepared.signedPayload);
 
-    const opts = options as { url?: string; method?: string; tolerance?: number };
-    const url = opts?.url;
-    const method = opts?.method ?? 'POST';
+    return secureCompare(computed, prepared.sig)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    if (!url) {
-      return false;
+  async verifyDetailedAsync(payload, signature, secret, options) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    // Validate timestamp (HubSpot uses milliseconds)
-    const tolerance = opts?.tolerance ?? 300;
-    const timestampNum = parseInt(timestamp, 10);
-    const now = Date.now();
+    const computed = prepared.legacy
+      ? await computeHashHexAsync('sha256', prepared.signedPayload)
+      : await computeHmacBase64Async('sha256', secret, prepared.signedPayload);
+
+    return constantTimeEqual(computed, prepared.sig)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    // HubSpot timestamp is in milliseconds
-    if (Math.abs(now - timestampNum) > tolerance * 1000) {
-      return false;
+  sign(payload, secret, options?) {
+    if (!options?.url) {
+      throw new Error('HubSpot signing requires url option');
     }
 
-    // Compute expected signature: base64(HMACSHA256(method + uri + body + timestamp))
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const signedPayload = method + url + payloadString + timestamp;
-    const computed = createHmac('sha256', secret).update(signedPayload).digest('base64');
+    // HubSpot timestamps are in milliseconds
+    const timestamp = String((options.timestamp ?? Math.floor(Date.now() / 1000)) * 1000);
+    const method = options.method ?? 'POST';
+    const sig = computeHmacBase64('sha256', secret, method + options.url + toUtf8String(payload) + timestamp);
 
-    return secureCompare(computed, sig);
+    return { 'x-hubspot-signature-v3': sig, 'x-hubspot-request-timestamp': timestamp };
   },
-};
+});
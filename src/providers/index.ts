@@ -13,6 +13,7 @@ import { sendgrid } from './sendgrid.js';
 import { shopify } from './shopify.js';
 import { slack } from './slack.js';
 import { square } from './square.js';
+import { standardWebhooks } from './standard-webhooks.js';
 import { stripe } from './stripe.js';
 import { svix } from './svix.js';
 import { twilio } from './twilio.js';
@@ -20,12 +21,12 @@ import { typeform } from './typeform.js';
 import { vercel } from './vercel.js';
 import { zendesk } from './zendesk.js';
 
-import type { Provider, ProviderVerifier } from '../types.js';
+import type { BuiltInProvider, ProviderVerifier } from '../types.js';
 
 /**
- * Registry of all supported webhook providers
+ * Registry of the built-in webhook providers
  */
-export const providers: Record<Provider, ProviderVerifier> = {
+export const providers: Record<BuiltInProvider, ProviderVerifier> = {
   clerk,
   crystallize,
   discord,
@@ -41,6 +42,7 @@ export const providers: Record<Provider, ProviderVerifier> = {
   shopify,
   slack,
   square,
+  'standard-webhooks': standardWebhooks,
   stripe,
   svix,
   twilio,
@@ -65,6 +67,7 @@ export {
   shopify,
   slack,
   square,
+  standardWebhooks,
   stripe,
   svix,
   twilio,
@@ -1,5 +1,4 @@
-import { computeHmacHex, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Intercom webhook verification
@@ -9,19 +8,9 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://developers.intercom.com/docs/webhooks/webhook-model
  */
-export const intercom: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    // Handle both full header value and just the hash
-    const expectedSig = signature.startsWith('sha1=')
-      ? signature.slice(5)
-      : signature;
-
-    const computedSig = computeHmacHex('sha1', secret, payload);
-
-    return secureCompare(computedSig, expectedSig.toLowerCase());
-  },
-};
+export const intercom = defineHmacProvider({
+  signatureHeader: 'x-hub-signature',
+  algorithm: 'sha1',
+  encoding: 'hex',
+  prefix: 'sha1=',
+});
@@ -1,5 +1,4 @@
-import { computeHmacHex, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Linear webhook verification
@@ -9,14 +8,8 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://developers.linear.app/docs/graphql/webhooks#signature-verification
  */
-export const linear: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    const computedSig = computeHmacHex('sha256', secret, payload);
-
-    return secureCompare(computedSig, signature.toLowerCase());
-  },
-};
+export const linear = defineHmacProvider({
+  signatureHeader: 'linear-signature',
+  algorithm: 'sha256',
+  encoding: 'hex',
+});
@@ -1,5 +1,4 @@
-import { computeHmacBase64, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Mailchimp webhook verification
@@ -9,14 +8,8 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://mailchimp.com/developer/transactional/guides/track-respond-activity-webhooks/
  */
-export const mailchimp: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    const computedSig = computeHmacBase64('sha256', secret, payload);
-
-    return secureCompare(computedSig, signature);
-  },
-};
+export const mailchimp = defineHmacProvider({
+  signatureHeader: 'x-mailchimp-signature',
+  algorithm: 'sha256',
+  encoding: 'base64',
+});
@@ -1,5 +1,66 @@
-import { verifyRsa, isTimestampValid } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import {
+  importPublicKey,
+  verifyRsa,
+  signWithPrivateKey,
+  parseTimestamp,
+  checkTimestamp,
+} from '../utils/crypto.js';
+import { importRsaPublicKeyAsync, verifyRsaAsync, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the Paddle-Signature header, check the timestamp and build the signed payload
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  publicKey: string,
+  options?: VerifyOptions
+): VerificationResult | { signedPayload: string; sig: string; ts: number } {
+  const invalid = checkInputs(payload, signature, publicKey);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Parse signature header: ts=<timestamp>;h1=<signature>
+  let timestamp: string | undefined;
+  let sig: string | undefined;
+
+  const parts = signature.split(';');
+  for (const part of parts) {
+    if (part.startsWith('ts=')) {
+      timestamp = part.slice(3);
+    } else if (part.startsWith('h1=')) {
+      sig = part.slice(3);
+    }
+  }
+
+  if (!timestamp || !sig) {
+    return failure('malformed_signature');
+  }
+
+  const ts = parseTimestamp(timestamp);
+  if (ts === null) {
+    return failure('malformed_signature');
+  }
+
+  // Validate timestamp
+  const expired = checkTimestamp(ts, window);
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  // Build the signed payload
+  return { signedPayload: `${timestamp}:${toUtf8String(payload)}`, sig, ts };
+}
 
 /**
  * Paddle webhook verification (Paddle Billing)
@@ -16,38 +77,45 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  */
 export const paddle: ProviderVerifier = {
   verify(payload, signature, publicKey, options?) {
-    if (!payload || !signature || !publicKey) {
-      return false;
+    return paddle.verifyDetailed(payload, signature, publicKey, options).valid;
+  },
+
+  verifyDetailed(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    const tolerance = (options as TimestampOptions)?.tolerance ?? 300;
+    const key = importPublicKey(publicKey);
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
+    }
 
-    // Parse signature header: ts=<timestamp>;h1=<signature>
-    let timestamp: string | undefined;
-    let sig: string | undefined;
+    return verifyRsa(key, prepared.sig, prepared.signedPayload, 'RSA-SHA256')
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    const parts = signature.split(';');
-    for (const part of parts) {
-      if (part.startsWith('ts=')) {
-        timestamp = part.slice(3);
-      } else if (part.startsWith('h1=')) {
-        sig = part.slice(3);
-      }
+  async verifyDetailedAsync(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    if (!timestamp || !sig) {
-      return false;
+    const key = await importRsaPublicKeyAsync(publicKey, 'RSA-SHA256');
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    // Validate timestamp
-    if (!isTimestampValid(timestamp, tolerance)) {
-      return false;
-    }
+    return (await verifyRsaAsync(key, prepared.sig, prepared.signedPayload, 'RSA-SHA256'))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    // Build the signed payload
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const signedPayload = `${timestamp}:${payloadString}`;
+  sign(payload, privateKey, options?) {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    const sig = signWithPrivateKey(privateKey, `${timestamp}:${toUtf8String(payload)}`, 'RSA-SHA256');
 
-    return verifyRsa(publicKey, sig, signedPayload, 'RSA-SHA256');
+    return { 'paddle-signature': `ts=${timestamp};h1=${sig}` };
   },
 };
@@ -1,6 +1,4 @@
-import { createHmac } from 'crypto';
-import { secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Segment webhook verification
@@ -10,16 +8,8 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://segment.com/docs/connections/destinations/catalog/webhooks/
  */
-export const segment: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    // Compute expected signature: hex(HMACSHA1(body))
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const computed = createHmac('sha1', secret).update(payloadString).digest('hex');
-
-    return secureCompare(computed, signature.toLowerCase());
-  },
-};
+export const segment = defineHmacProvider({
+  signatureHeader: 'x-signature',
+  algorithm: 'sha1',
+  encoding: 'hex',
+});
@@ -1,6 +1,73 @@
-import { createVerify, createPublicKey } from 'crypto';
-import { isTimestampValid } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import { importPublicKey, verifyEcdsa, signWithPrivateKey, parseTimestamp, checkTimestamp } from '../utils/crypto.js';
+import { importEcdsaPublicKeyAsync, verifyEcdsaAsync, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow, policyFailure, requiresTimestamp } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the SendGrid signature, check the timestamp and build the signed payload
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  publicKey: string,
+  options?: VerifyOptions
+): VerificationResult | { signedPayload: string; sig: string; ts?: number } {
+  const invalid = checkInputs(payload, signature, publicKey);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Parse signature and timestamp
+  let sig: string | undefined;
+  let timestamp: string | undefined;
+
+  if (signature.includes(',')) {
+    const parts = signature.split(',');
+    for (const part of parts) {
+      if (part.startsWith('t=')) {
+        timestamp = part.slice(2);
+      } else {
+        sig = part;
+      }
+    }
+  } else {
+    sig = signature;
+  }
+
+  if (!sig) {
+    return failure('malformed_signature');
+  }
+  if (!timestamp && requiresTimestamp(options)) {
+    return policyFailure('missing_timestamp');
+  }
+
+  // Validate timestamp if present
+  let ts: number | undefined;
+  if (timestamp) {
+    const parsed = parseTimestamp(timestamp);
+    if (parsed === null) {
+      return failure('malformed_signature');
+    }
+    ts = parsed;
+
+    const expired = checkTimestamp(ts, window);
+    if (expired) {
+      return failure(expired, ts);
+    }
+  }
+
+  const payloadString = toUtf8String(payload);
+  const signedPayload = timestamp ? `${timestamp}${payloadString}` : payloadString;
+
+  return { signedPayload, sig, ts };
+}
 
 /**
  * SendGrid webhook verification (Event Webhook)
@@ -18,50 +85,48 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  */
 export const sendgrid: ProviderVerifier = {
   verify(payload, signature, publicKey, options?) {
-    if (!payload || !signature || !publicKey) {
-      return false;
-    }
-
-    const tolerance = (options as TimestampOptions)?.tolerance ?? 300;
+    return sendgrid.verifyDetailed(payload, signature, publicKey, options).valid;
+  },
 
-    // Parse signature and timestamp
-    let sig: string | undefined;
-    let timestamp: string | undefined;
+  verifyDetailed(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
+    }
 
-    if (signature.includes(',')) {
-      const parts = signature.split(',');
-      for (const part of parts) {
-        if (part.startsWith('t=')) {
-          timestamp = part.slice(2);
-        } else {
-          sig = part;
-        }
-      }
-    } else {
-      sig = signature;
+    // SendGrid uses ECDSA with P-256 curve
+    const key = importPublicKey(publicKey);
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    if (!sig) {
-      return false;
+    return verifyEcdsa(key, prepared.sig, prepared.signedPayload)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, publicKey, options?) {
+    const prepared = prepare(payload, signature, publicKey, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    // Validate timestamp if present
-    if (timestamp && !isTimestampValid(timestamp, tolerance)) {
-      return false;
+    const key = await importEcdsaPublicKeyAsync(publicKey);
+    if (!key) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    try {
-      const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-      const signedPayload = timestamp ? `${timestamp}${payloadString}` : payloadString;
+    return (await verifyEcdsaAsync(key, prepared.sig, prepared.signedPayload))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-      // SendGrid uses ECDSA with P-256 curve
-      const key = createPublicKey(publicKey);
-      const verify = createVerify('SHA256');
-      verify.update(signedPayload);
+  sign(payload, privateKey, options?) {
+    const timestamp = String(options?.timestamp ?? Math.floor(Date.now() / 1000));
 
-      return verify.verify(key, sig, 'base64');
-    } catch {
-      return false;
-    }
+    return {
+      'x-twilio-email-event-webhook-signature': signWithPrivateKey(privateKey, timestamp + toUtf8String(payload)),
+      'x-twilio-email-event-webhook-timestamp': timestamp,
+    };
   },
 };
@@ -1,5 +1,4 @@
-import { computeHmacBase64, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Shopify webhook verification
@@ -9,14 +8,11 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://shopify.dev/docs/apps/webhooks/configuration/https#step-5-verify-the-webhook
  */
-export const shopify: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    const computedSig = computeHmacBase64('sha256', secret, payload);
-
-    return secureCompare(computedSig, signature);
-  },
-};
+export const shopify = defineHmacProvider({
+  signatureHeader: 'x-shopify-hmac-sha256',
+  eventHeader: 'x-shopify-topic',
+  deliveryIdHeader: 'x-shopify-webhook-id',
+  algorithm: 'sha256',
+  encoding: 'base64',
+  headerNames: { signature: 'x-shopify-hmac-sha256', topic: 'x-shopify-topic' },
+});
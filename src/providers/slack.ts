@@ -1,5 +1,75 @@
-import { computeHmacHex, secureCompare, isTimestampValid } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import {
+  computeHmacHex,
+  secureCompare,
+  parseTimestamp,
+  checkTimestamp,
+} from '../utils/crypto.js';
+import { computeHmacHexAsync, constantTimeEqual, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow, policyFailure, requiresTimestamp } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the Slack signature, check the timestamp and build the base string
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { baseString: string; sig: string; ts: number } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Parse signature - can be "v0=<sig>,t=<timestamp>" or just "v0=<sig>"
+  let sig: string | undefined;
+  let timestamp: string | undefined;
+
+  if (signature.includes(',')) {
+    // Combined format: "v0=<sig>,t=<timestamp>"
+    const parts = signature.split(',');
+    for (const part of parts) {
+      const [key, value] = part.split('=');
+      if (key === 'v0') {
+        sig = value;
+      } else if (key === 't') {
+        timestamp = value;
+      }
+    }
+  } else {
+    sig = signature.startsWith('v0=') ? signature.slice(3) : signature;
+    // Without a timestamp the freshness cannot be checked, unless the policy requires one
+    if (requiresTimestamp(options)) {
+      return policyFailure('missing_timestamp');
+    }
+    timestamp = String(Math.floor(window.now / 1000));
+  }
+
+  if (!sig || !timestamp) {
+    return failure('malformed_signature');
+  }
+
+  const ts = parseTimestamp(timestamp);
+  if (ts === null) {
+    return failure('malformed_signature');
+  }
+
+  // Validate timestamp
+  const expired = checkTimestamp(ts, window);
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  return { baseString: `v0:${timestamp}:${toUtf8String(payload)}`, sig, ts };
+}
 
 /**
  * Slack webhook verification
@@ -17,50 +87,40 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  */
 export const slack: ProviderVerifier = {
   verify(payload, signature, secret, options?) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
+    return slack.verifyDetailed(payload, signature, secret, options).valid;
+  },
 
-    const tolerance = (options as TimestampOptions)?.tolerance ?? 300;
-
-    // Parse signature - can be "v0=<sig>,t=<timestamp>" or just "v0=<sig>"
-    let sig: string | undefined;
-    let timestamp: string | undefined;
-
-    if (signature.includes(',')) {
-      // Combined format: "v0=<sig>,t=<timestamp>"
-      const parts = signature.split(',');
-      for (const part of parts) {
-        const [key, value] = part.split('=');
-        if (key === 'v0') {
-          sig = value;
-        } else if (key === 't') {
-          timestamp = value;
-        }
-      }
-    } else if (signature.startsWith('v0=')) {
-      sig = signature.slice(3);
-      // Timestamp must be in options or we can't validate
-      timestamp = String(Math.floor(Date.now() / 1000));
-    } else {
-      sig = signature;
-      timestamp = String(Math.floor(Date.now() / 1000));
+  verifyDetailed(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    if (!sig || !timestamp) {
-      return false;
-    }
+    // Compute expected signature
+    const expectedSig = computeHmacHex('sha256', secret, prepared.baseString);
 
-    // Validate timestamp
-    if (!isTimestampValid(timestamp, tolerance)) {
-      return false;
+    return secureCompare(`v0=${expectedSig}`, `v0=${prepared.sig.toLowerCase()}`)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    // Compute expected signature
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const baseString = `v0:${timestamp}:${payloadString}`;
-    const expectedSig = computeHmacHex('sha256', secret, baseString);
+    const expectedSig = await computeHmacHexAsync('sha256', secret, prepared.baseString);
+
+    return constantTimeEqual(`v0=${expectedSig}`, `v0=${prepared.sig.toLowerCase()}`)
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  sign(payload, secret, options?) {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    const sig = computeHmacHex('sha256', secret, `v0:${timestamp}:${toUtf8String(payload)}`);
 
-    return secureCompare(`v0=${expectedSig}`, `v0=${sig.toLowerCase()}`);
+    return { 'x-slack-signature': `v0=${sig}`, 'x-slack-request-timestamp': String(timestamp) };
   },
 };
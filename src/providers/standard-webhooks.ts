@@ -0,0 +1,203 @@
+import {
+  computeHmacBase64,
+  randomUuid,
+  secureCompare,
+  importEd25519PublicKey,
+  verifyEd25519,
+  signEd25519,
+  parseTimestamp,
+  checkTimestamp,
+} from '../utils/crypto.js';
+import {
+  computeHmacBase64Async,
+  constantTimeEqual,
+  importEd25519PublicKeyAsync,
+  verifyEd25519Async,
+  base64ToBytes,
+  bytesToHex,
+  toUtf8String,
+} from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the signature list, check the timestamp and decode the key
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+):
+  | VerificationResult
+  | { signedContent: string; signatures: string[]; scheme: 'v1' | 'v1a'; key: Uint8Array; ts: number } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Format: "<webhook-signature>,t=<timestamp>,id=<msg-id>"
+  // where webhook-signature is a space-delimited list like "v1,<sig> v1a,<sig>"
+  const match = /^(.*),t=([^,]*),id=(.+)$/s.exec(signature);
+  if (!match) {
+    return failure('malformed_signature');
+  }
+
+  const [, signatureList, timestamp, msgId] = match;
+
+  const ts = parseTimestamp(timestamp);
+  if (ts === null) {
+    return failure('malformed_signature');
+  }
+
+  // Validate timestamp
+  const expired = checkTimestamp(ts, window);
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  const entries = signatureList
+    .split(' ')
+    .map((entry) => entry.split(','))
+    .filter((parts) => parts.length === 2 && parts[0] && parts[1]);
+  if (entries.length === 0) {
+    return failure('malformed_signature', ts);
+  }
+
+  // Public keys ("whpk_") verify asymmetric v1a signatures, secrets ("whsec_") symmetric v1 ones
+  if (secret.startsWith('whsk_')) {
+    return failure('invalid_key', ts);
+  }
+  const scheme = secret.startsWith('whpk_') ? 'v1a' : 'v1';
+  const key = base64ToBytes(secret.replace(/^wh(sec|pk)_/, ''));
+  if (!key || key.length === 0 || (scheme === 'v1a' && key.length !== 32)) {
+    return failure('invalid_key', ts);
+  }
+
+  return {
+    signedContent: `${msgId}.${timestamp}.${toUtf8String(payload)}`,
+    signatures: entries.filter(([version]) => version === scheme).map(([, sig]) => sig),
+    scheme,
+    key,
+    ts,
+  };
+}
+
+/**
+ * Decode a base64 Ed25519 signature to hex, or return null if it is not valid
+ */
+function signatureToHex(sig: string): string | null {
+  const bytes = base64ToBytes(sig);
+  return bytes && bytes.length === 64 ? bytesToHex(bytes) : null;
+}
+
+/**
+ * Standard Webhooks verification
+ *
+ * The Standard Webhooks specification (https://www.standardwebhooks.com) is used
+ * by Replicate and many other senders. It sends:
+ * - webhook-id: Unique message ID
+ * - webhook-timestamp: Unix timestamp
+ * - webhook-signature: Space-delimited list of signatures ("v1,<base64-sig> v1a,<base64-sig>")
+ *
+ * The signed content is "<msg-id>.<timestamp>.<body>":
+ * - v1: HMAC-SHA256 keyed with the base64 secret ("whsec_..." prefix)
+ * - v1a: Ed25519, verified with the base64 public key ("whpk_..." prefix)
+ *
+ * For this library, pass signature in format: "<webhook-signature>,t=<timestamp>,id=<msg-id>"
+ *
+ * @see https://github.com/standard-webhooks/standard-webhooks/blob/main/spec/standard-webhooks.md
+ */
+export const standardWebhooks: ProviderVerifier = {
+  verify(payload, signature, secret, options?) {
+    return standardWebhooks.verifyDetailed(payload, signature, secret, options).valid;
+  },
+
+  verifyDetailed(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
+    }
+
+    if (prepared.scheme === 'v1a') {
+      const key = importEd25519PublicKey(bytesToHex(prepared.key));
+      if (!key) {
+        return failure('invalid_key', prepared.ts);
+      }
+
+      return prepared.signatures.some((sig) => {
+        const sigHex = signatureToHex(sig);
+        return sigHex !== null && verifyEd25519(key, sigHex, prepared.signedContent);
+      })
+        ? success(prepared.ts)
+        : failure('signature_mismatch', prepared.ts);
+    }
+
+    const expectedSig = computeHmacBase64('sha256', Buffer.from(prepared.key), prepared.signedContent);
+
+    // Check if any of the signatures match
+    return prepared.signatures.some((sig) => secureCompare(expectedSig, sig))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
+    }
+
+    if (prepared.scheme === 'v1a') {
+      const key = await importEd25519PublicKeyAsync(bytesToHex(prepared.key));
+      if (!key) {
+        return failure('invalid_key', prepared.ts);
+      }
+
+      for (const sig of prepared.signatures) {
+        const sigHex = signatureToHex(sig);
+        if (sigHex !== null && (await verifyEd25519Async(key, sigHex, prepared.signedContent))) {
+          return success(prepared.ts);
+        }
+      }
+      return failure('signature_mismatch', prepared.ts);
+    }
+
+    const expectedSig = await computeHmacBase64Async('sha256', prepared.key, prepared.signedContent);
+
+    return prepared.signatures.some((sig) => constantTimeEqual(expectedSig, sig))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  sign(payload, secret, options?) {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    const id = options?.id ?? `msg_${randomUuid().replace(/-/g, '')}`;
+    const content = `${id}.${timestamp}.${toUtf8String(payload)}`;
+
+    let signature: string;
+    if (secret.startsWith('whsk_')) {
+      // Signing keys hold the 32-byte seed, optionally followed by the public key
+      const key = base64ToBytes(secret.slice(5));
+      if (!key || (key.length !== 32 && key.length !== 64)) {
+        throw new Error('Invalid Standard Webhooks signing key');
+      }
+      const sigHex = signEd25519(bytesToHex(key.subarray(0, 32)), content);
+      signature = `v1a,${Buffer.from(sigHex, 'hex').toString('base64')}`;
+    } else {
+      const key = base64ToBytes(secret.replace(/^whsec_/, ''));
+      if (!key || key.length === 0) {
+        throw new Error('Invalid Standard Webhooks secret');
+      }
+      signature = `v1,${computeHmacBase64('sha256', Buffer.from(key), content)}`;
+    }
+
+    return { 'webhook-id': id, 'webhook-timestamp': String(timestamp), 'webhook-signature': signature };
+  },
+};
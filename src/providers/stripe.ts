@@ -1,5 +1,65 @@
-import { computeHmacHex, secureCompare, isTimestampValid } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import {
+  computeHmacHex,
+  secureCompare,
+  parseTimestamp,
+  checkTimestamp,
+} from '../utils/crypto.js';
+import { computeHmacHexAsync, constantTimeEqual, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the Stripe-Signature header, check the timestamp and build the signed payload
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { signedPayload: string; signatures: string[]; ts: number } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Parse the signature header
+  const parts = signature.split(',');
+  let timestamp: string | undefined;
+  let signatures: string[] = [];
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (key === 't') {
+      timestamp = value;
+    } else if (key === 'v1') {
+      signatures.push(value);
+    }
+  }
+
+  if (!timestamp || signatures.length === 0) {
+    return failure('malformed_signature');
+  }
+
+  const ts = parseTimestamp(timestamp);
+  if (ts === null) {
+    return failure('malformed_signature');
+  }
+
+  // Validate timestamp
+  const expired = checkTimestamp(ts, window);
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  return { signedPayload: `${timestamp}.${toUtf8String(payload)}`, signatures, ts };
+}
 
 /**
  * Stripe webhook verification
@@ -13,41 +73,41 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  */
 export const stripe: ProviderVerifier = {
   verify(payload, signature, secret, options?) {
-    if (!payload || !signature || !secret) {
-      return false;
+    return stripe.verifyDetailed(payload, signature, secret, options).valid;
+  },
+
+  verifyDetailed(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    const tolerance = (options as TimestampOptions)?.tolerance ?? 300;
+    // Compute expected signature
+    const expectedSig = computeHmacHex('sha256', secret, prepared.signedPayload);
 
-    // Parse the signature header
-    const parts = signature.split(',');
-    let timestamp: string | undefined;
-    let signatures: string[] = [];
+    // Check if any of the signatures match
+    return prepared.signatures.some((sig) => secureCompare(expectedSig, sig.toLowerCase()))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    for (const part of parts) {
-      const [key, value] = part.split('=');
-      if (key === 't') {
-        timestamp = value;
-      } else if (key === 'v1') {
-        signatures.push(value);
-      }
+  async verifyDetailedAsync(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    if (!timestamp || signatures.length === 0) {
-      return false;
-    }
+    const expectedSig = await computeHmacHexAsync('sha256', secret, prepared.signedPayload);
 
-    // Validate timestamp
-    if (!isTimestampValid(timestamp, tolerance)) {
-      return false;
-    }
+    return prepared.signatures.some((sig) => constantTimeEqual(expectedSig, sig.toLowerCase()))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
 
-    // Compute expected signature
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const signedPayload = `${timestamp}.${payloadString}`;
-    const expectedSig = computeHmacHex('sha256', secret, signedPayload);
+  sign(payload, secret, options?) {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    const sig = computeHmacHex('sha256', secret, `${timestamp}.${toUtf8String(payload)}`);
 
-    // Check if any of the signatures match
-    return signatures.some((sig) => secureCompare(expectedSig, sig.toLowerCase()));
+    return { 'stripe-signature': `t=${timestamp},v1=${sig}` };
   },
 };
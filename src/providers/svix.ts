@@ -1,5 +1,85 @@
-import { computeHmacBase64, secureCompare, isTimestampValid } from '../utils/crypto.js';
-import type { ProviderVerifier, TimestampOptions } from '../types.js';
+import {
+  computeHmacBase64,
+  randomUuid,
+  secureCompare,
+  parseTimestamp,
+  checkTimestamp,
+} from '../utils/crypto.js';
+import {
+  computeHmacBase64Async,
+  constantTimeEqual,
+  base64ToBytes,
+  toUtf8String,
+} from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { getTimestampWindow } from '../policy.js';
+import type {
+  ProviderVerifier,
+  VerificationResult,
+  VerifyOptions,
+} from '../types.js';
+
+/**
+ * Parse the Svix signature, check the timestamp and build the signed payload
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { signedPayload: string; signatures: string[]; secretBase64: string; ts: number } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  const window = getTimestampWindow(options);
+
+  // Parse signature parts
+  // Format: "v1,<sig>,t=<timestamp>,id=<msg-id>" or multiple sigs "v1,<sig1> v1,<sig2>,t=...,id=..."
+  let signatures: string[] = [];
+  let timestamp: string | undefined;
+  let msgId: string | undefined;
+
+  const parts = signature.split(',');
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i].trim();
+    if (part === 'v1' && i + 1 < parts.length) {
+      // v1 is followed by the signature in the next part
+      signatures.push(parts[i + 1].trim());
+      i++; // skip the signature part
+    } else if (part.startsWith('t=')) {
+      timestamp = part.slice(2);
+    } else if (part.startsWith('id=')) {
+      msgId = part.slice(3);
+    }
+  }
+
+  if (!timestamp || !msgId || signatures.length === 0) {
+    return failure('malformed_signature');
+  }
+
+  const ts = parseTimestamp(timestamp);
+  if (ts === null) {
+    return failure('malformed_signature');
+  }
+
+  // Validate timestamp
+  const expired = checkTimestamp(ts, window);
+  if (expired) {
+    return failure(expired, ts);
+  }
+
+  // Svix secrets are base64 encoded and prefixed with "whsec_"
+  const secretBase64 = secret.startsWith('whsec_') ? secret.slice(6) : secret;
+
+  return {
+    signedPayload: `${msgId}.${timestamp}.${toUtf8String(payload)}`,
+    signatures,
+    secretBase64,
+    ts,
+  };
+}
 
 /**
  * Svix webhook verification
@@ -17,55 +97,53 @@ import type { ProviderVerifier, TimestampOptions } from '../types.js';
  */
 export const svix: ProviderVerifier = {
   verify(payload, signature, secret, options?) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
+    return svix.verifyDetailed(payload, signature, secret, options).valid;
+  },
 
-    const tolerance = (options as TimestampOptions)?.tolerance ?? 300;
-
-    // Parse signature parts
-    // Format: "v1,<sig>,t=<timestamp>,id=<msg-id>" or multiple sigs "v1,<sig1> v1,<sig2>,t=...,id=..."
-    let signatures: string[] = [];
-    let timestamp: string | undefined;
-    let msgId: string | undefined;
-
-    const parts = signature.split(',');
-    for (let i = 0; i < parts.length; i++) {
-      const part = parts[i].trim();
-      if (part === 'v1' && i + 1 < parts.length) {
-        // v1 is followed by the signature in the next part
-        signatures.push(parts[i + 1].trim());
-        i++; // skip the signature part
-      } else if (part.startsWith('t=')) {
-        timestamp = part.slice(2);
-      } else if (part.startsWith('id=')) {
-        msgId = part.slice(3);
-      }
+  verifyDetailed(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    if (!timestamp || !msgId || signatures.length === 0) {
-      return false;
+    const secretKey = Buffer.from(prepared.secretBase64, 'base64');
+    if (secretKey.length === 0) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    // Validate timestamp
-    if (!isTimestampValid(timestamp, tolerance)) {
-      return false;
+    // Compute expected signature
+    const expectedSig = computeHmacBase64('sha256', secretKey, prepared.signedPayload);
+
+    // Check if any of the signatures match
+    return prepared.signatures.some((sig) => secureCompare(expectedSig, sig))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  async verifyDetailedAsync(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    // Svix secrets are base64 encoded and prefixed with "whsec_"
-    let secretKey: Buffer;
-    if (secret.startsWith('whsec_')) {
-      secretKey = Buffer.from(secret.slice(6), 'base64');
-    } else {
-      secretKey = Buffer.from(secret, 'base64');
+    const secretKey = base64ToBytes(prepared.secretBase64);
+    if (!secretKey || secretKey.length === 0) {
+      return failure('invalid_key', prepared.ts);
     }
 
-    // Compute expected signature
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const signedPayload = `${msgId}.${timestamp}.${payloadString}`;
-    const expectedSig = computeHmacBase64('sha256', secretKey, signedPayload);
+    const expectedSig = await computeHmacBase64Async('sha256', secretKey, prepared.signedPayload);
 
-    // Check if any of the signatures match
-    return signatures.some((sig) => secureCompare(expectedSig, sig));
+    return prepared.signatures.some((sig) => constantTimeEqual(expectedSig, sig))
+      ? success(prepared.ts)
+      : failure('signature_mismatch', prepared.ts);
+  },
+
+  sign(payload, secret, options?) {
+    const timestamp = options?.timestamp ?? Math.floor(Date.now() / 1000);
+    const id = options?.id ?? `msg_${randomUuid().replace(/-/g, '')}`;
+    const secretKey = Buffer.from(secret.startsWith('whsec_') ? secret.slice(6) : secret, 'base64');
+    const sig = computeHmacBase64('sha256', secretKey, `${id}.${timestamp}.${toUtf8String(payload)}`);
+
+    return { 'svix-id': id, 'svix-timestamp': String(timestamp), 'svix-signature': `v1,${sig}` };
   },
 };
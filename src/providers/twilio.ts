@@ -1,5 +1,78 @@
-import { computeHmacBase64, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier, TwilioOptions } from '../types.js';
+import { computeHashHex, computeHmacBase64, secureCompare } from '../utils/crypto.js';
+import { computeHashHexAsync, computeHmacBase64Async, constantTimeEqual, toUtf8String } from '../utils/webcrypto.js';
+import { checkInputs, failure, success } from '../utils/result.js';
+import { checkHashStrength } from '../policy.js';
+import { acceptUrlCandidates } from '../url.js';
+import type { ProviderVerifier, TwilioOptions, VerificationResult, VerifyOptions } from '../types.js';
+
+/**
+ * Get the `bodySHA256` query parameter Twilio adds to the URL of JSON-body requests
+ */
+function getBodySha256(url: string): string | undefined {
+  const match = url.match(/[?&]bodySHA256=([^&#]*)/);
+  return match?.[1];
+}
+
+/**
+ * Build the string Twilio signs
+ *
+ * For form bodies: the URL followed by each parameter name and value, sorted
+ * by name (case-sensitive). A name with several values is repeated once per
+ * distinct value, in sorted order. For JSON bodies (`bodySHA256` in the URL):
+ * the URL alone.
+ */
+function buildSignatureBase(url: string, payload: string | Uint8Array): string {
+  if (getBodySha256(url) !== undefined) {
+    return url;
+  }
+
+  const params = new Map<string, Set<string>>();
+  for (const [key, value] of new URLSearchParams(toUtf8String(payload))) {
+    params.set(key, (params.get(key) ?? new Set()).add(value));
+  }
+
+  let signatureBase = url;
+  for (const key of [...params.keys()].sort()) {
+    for (const value of [...params.get(key)!].sort()) {
+      signatureBase += key + value;
+    }
+  }
+
+  return signatureBase;
+}
+
+/**
+ * Check the inputs and build the string Twilio signs, and the body hash to check for JSON bodies
+ */
+function prepare(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string,
+  options?: VerifyOptions
+): VerificationResult | { signatureBase: string; bodySha256?: string } {
+  const invalid = checkInputs(payload, signature, secret);
+  if (invalid) {
+    return invalid;
+  }
+
+  const weak = checkHashStrength(options, 'sha1');
+  if (weak) {
+    return weak;
+  }
+
+  // A list of candidate URLs is tried one at a time by acceptUrlCandidates()
+  const url = (options as TwilioOptions)?.url as string | undefined;
+  if (!url) {
+    return failure('missing_option');
+  }
+
+  const bodySha256 = getBodySha256(url);
+
+  return {
+    signatureBase: buildSignatureBase(url, payload),
+    ...(bodySha256 !== undefined && { bodySha256: bodySha256.toLowerCase() }),
+  };
+}
 
 /**
  * Twilio webhook verification
@@ -7,42 +80,66 @@ import type { ProviderVerifier, TwilioOptions } from '../types.js';
  * Twilio sends webhooks with X-Twilio-Signature header containing
  * a base64-encoded HMAC-SHA1 signature.
  *
- * The signature is computed over the full URL + sorted POST parameters.
+ * For form-encoded bodies, the signature is computed over the full URL + sorted
+ * POST parameters. For JSON bodies (e.g. Studio, Event Streams, Conversations),
+ * Twilio adds a `bodySHA256` query parameter with the hex SHA-256 of the body to
+ * the URL, and signs the URL alone; the body is then checked against that hash.
+ * The mode is detected from the URL.
  *
  * For this library, pass the full URL in options.url and the raw body as payload.
- * The payload should be the URL-encoded form body.
+ * options.url may also be a list of candidate URLs (see urlVariants()), tried in turn.
  *
  * @see https://www.twilio.com/docs/usage/security#validating-requests
  */
-export const twilio: ProviderVerifier = {
+export const twilio: ProviderVerifier = acceptUrlCandidates({
   verify(payload, signature, secret, options?) {
-    if (!payload || !signature || !secret) {
-      return false;
+    return twilio.verifyDetailed(payload, signature, secret, options).valid;
+  },
+
+  verifyDetailed(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
 
-    const url = (options as TwilioOptions)?.url;
-    if (!url) {
-      return false;
+    const computedSig = computeHmacBase64('sha1', secret, prepared.signatureBase);
+    if (!secureCompare(computedSig, signature)) {
+      return failure('signature_mismatch');
     }
 
-    // Parse the form body and sort parameters
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const params = new URLSearchParams(payloadString);
-    const sortedParams: [string, string][] = [];
+    // JSON bodies are not covered by the signature, only by the signed hash
+    if (prepared.bodySha256 !== undefined) {
+      const bodyHash = computeHashHex('sha256', payload);
+      return secureCompare(bodyHash, prepared.bodySha256) ? success() : failure('signature_mismatch');
+    }
 
-    for (const [key, value] of params) {
-      sortedParams.push([key, value]);
+    return success();
+  },
+
+  async verifyDetailedAsync(payload, signature, secret, options?) {
+    const prepared = prepare(payload, signature, secret, options);
+    if ('valid' in prepared) {
+      return prepared;
     }
-    sortedParams.sort((a, b) => a[0].localeCompare(b[0]));
 
-    // Build the string to sign: URL + sorted key-value pairs (no separators)
-    let signatureBase = url;
-    for (const [key, value] of sortedParams) {
-      signatureBase += key + value;
+    const computedSig = await computeHmacBase64Async('sha1', secret, prepared.signatureBase);
+    if (!constantTimeEqual(computedSig, signature)) {
+      return failure('signature_mismatch');
+    }
+
+    if (prepared.bodySha256 !== undefined) {
+      const bodyHash = await computeHashHexAsync('sha256', payload);
+      return constantTimeEqual(bodyHash, prepared.bodySha256) ? success() : failure('signature_mismatch');
     }
 
-    const computedSig = computeHmacBase64('sha1', secret, signatureBase);
+    return success();
+  },
+
+  sign(payload, secret, options?) {
+    if (!options?.url) {
+      throw new Error('Twilio signing requires url option');
+    }
 
-    return secureCompare(computedSig, signature);
+    return { 'x-twilio-signature': computeHmacBase64('sha1', secret, buildSignatureBase(options.url, payload)) };
   },
-};
+});
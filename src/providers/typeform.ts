@@ -1,5 +1,4 @@
-import { computeHmacBase64, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Typeform webhook verification
@@ -9,19 +8,9 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://www.typeform.com/developers/webhooks/secure-your-webhooks/
  */
-export const typeform: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    // Handle both full header value and just the hash
-    const expectedSig = signature.startsWith('sha256=')
-      ? signature.slice(7)
-      : signature;
-
-    const computedSig = computeHmacBase64('sha256', secret, payload);
-
-    return secureCompare(computedSig, expectedSig);
-  },
-};
+export const typeform = defineHmacProvider({
+  signatureHeader: 'typeform-signature',
+  algorithm: 'sha256',
+  encoding: 'base64',
+  prefix: 'sha256=',
+});
@@ -1,5 +1,4 @@
-import { computeHmacHex, secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Vercel webhook verification
@@ -9,14 +8,8 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://vercel.com/docs/observability/webhooks-overview/webhooks-api#securing-webhooks
  */
-export const vercel: ProviderVerifier = {
-  verify(payload, signature, secret) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    const computedSig = computeHmacHex('sha1', secret, payload);
-
-    return secureCompare(computedSig, signature.toLowerCase());
-  },
-};
+export const vercel = defineHmacProvider({
+  signatureHeader: 'x-vercel-signature',
+  algorithm: 'sha1',
+  encoding: 'hex',
+});
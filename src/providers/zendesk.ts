@@ -1,6 +1,4 @@
-import { createHmac } from 'crypto';
-import { secureCompare } from '../utils/crypto.js';
-import type { ProviderVerifier } from '../types.js';
+import { defineHmacProvider } from '../define.js';
 
 /**
  * Zendesk webhook verification
@@ -13,38 +11,10 @@ import type { ProviderVerifier } from '../types.js';
  *
  * @see https://developer.zendesk.com/documentation/webhooks/verifying/
  */
-export const zendesk: ProviderVerifier = {
-  verify(payload, signature, secret, options) {
-    if (!payload || !signature || !secret) {
-      return false;
-    }
-
-    // Parse signature format: "signature,t=timestamp"
-    const parts = signature.split(',t=');
-    if (parts.length !== 2) {
-      return false;
-    }
-
-    const [sig, timestamp] = parts;
-
-    if (!sig || !timestamp) {
-      return false;
-    }
-
-    // Validate timestamp if tolerance is set
-    const tolerance = (options as { tolerance?: number })?.tolerance ?? 300;
-    const timestampNum = parseInt(timestamp, 10);
-    const now = Math.floor(Date.now() / 1000);
-
-    if (Math.abs(now - timestampNum) > tolerance) {
-      return false;
-    }
-
-    // Compute expected signature: base64(HMACSHA256(timestamp + body))
-    const payloadString = typeof payload === 'string' ? payload : payload.toString('utf8');
-    const signedPayload = timestamp + payloadString;
-    const computed = createHmac('sha256', secret).update(signedPayload).digest('base64');
-
-    return secureCompare(computed, sig);
-  },
-};
+export const zendesk = defineHmacProvider({
+  signatureHeader: 'x-zendesk-webhook-signature',
+  timestampHeader: 'x-zendesk-webhook-signature-timestamp',
+  algorithm: 'sha256',
+  encoding: 'base64',
+  signedPayload: ({ timestamp, payload }) => timestamp + payload,
+});
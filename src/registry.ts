@@ -0,0 +1,119 @@
+import { providers } from './providers/index.js';
+import { registerHeaders } from './headers.js';
+import { failure, success } from './utils/result.js';
+import type { BuiltInProvider, Provider, ProviderDefinition, ProviderVerifier } from './types.js';
+
+/**
+ * Verifiers of the providers added with registerProvider()
+ */
+const customProviders = new Map<string, ProviderVerifier>();
+
+/**
+ * Registered providers that sign the decoded body of compressed requests
+ */
+const decodedBodyProviders = new Set<string>();
+
+/**
+ * Check if a name belongs to a provider shipped with this library (cannot be overridden)
+ */
+function isBuiltIn(name: string): name is BuiltInProvider {
+  return Object.hasOwn(providers, name);
+}
+
+/**
+ * Look up the verifier of a built-in or registered provider
+ */
+export function getProviderVerifier(name: string): ProviderVerifier | undefined {
+  return isBuiltIn(name) ? providers[name] : customProviders.get(name);
+}
+
+/**
+ * Check if a provider signs the decoded body of compressed requests
+ *
+ * Built-in providers all sign the uncompressed body; registered ones sign the
+ * bytes as sent unless defined with `signedBody: 'decoded'`.
+ */
+export function signsDecodedBody(name: string): boolean {
+  return isBuiltIn(name) || decodedBodyProviders.has(name);
+}
+
+/**
+ * Names of the built-in providers followed by the registered ones
+ */
+export function getProviderNames(): Provider[] {
+  return [...Object.keys(providers), ...customProviders.keys()] as Provider[];
+}
+
+/**
+ * Register a custom webhook provider at runtime
+ *
+ * Once registered, the provider works with verify(), verifyDetailed(),
+ * verifyAsync(), sign(), getSignature(), getHeaderNames(), getSupportedProviders()
+ * and isProviderSupported(). Registering the same name again replaces the
+ * previous definition.
+ *
+ * @param name - The provider name
+ * @param definition - Verification function, header extractor, header names and signed body
+ * @throws Error if the name is empty or belongs to a built-in provider
+ *
+ * @example
+ * ```typescript
+ * import { registerProvider, verify, hmac } from 'webhook-verify';
+ *
+ * declare module 'webhook-verify' {
+ *   interface CustomProviders {
+ *     acme: true;
+ *   }
+ * }
+ *
+ * registerProvider('acme', {
+ *   verify: (payload, signature, secret) => hmac.verify(payload, signature, secret),
+ *   extractHeaders: (headers) => {
+ *     const signature = headers['x-acme-signature'];
+ *     return typeof signature === 'string' ? { signature, rawSignature: signature } : null;
+ *   },
+ *   headerNames: { signature: 'x-acme-signature' },
+ * });
+ *
+ * verify('acme', req.rawBody, req.headers, secret);
+ * ```
+ */
+export function registerProvider(name: Provider, definition: ProviderDefinition): void {
+  if (!name) {
+    throw new Error('Provider name must be a non-empty string');
+  }
+  if (isBuiltIn(name)) {
+    throw new Error(`Cannot override built-in webhook provider: ${name}`);
+  }
+
+  const { verify, extractHeaders, headerNames } = definition;
+
+  const verifyDetailed: ProviderVerifier['verifyDetailed'] =
+    definition.verifyDetailed ??
+    ((payload, signature, secret, options) =>
+      verify(payload, signature, secret, options) ? success() : failure('signature_mismatch'));
+
+  const verifyDetailedAsync: ProviderVerifier['verifyDetailedAsync'] =
+    definition.verifyDetailedAsync ??
+    (async (payload, signature, secret, options) =>
+      verifyDetailed(
+        typeof payload === 'string' ? payload : Buffer.from(payload),
+        signature,
+        secret,
+        options
+      ));
+
+  const sign: ProviderVerifier['sign'] =
+    definition.sign ??
+    (() => {
+      throw new Error(`Signing is not supported for webhook provider: ${name}`);
+    });
+
+  customProviders.set(name, { verify, verifyDetailed, verifyDetailedAsync, sign });
+  if (definition.signedBody === 'decoded') {
+    decodedBodyProviders.add(name);
+  } else {
+    decodedBodyProviders.delete(name);
+  }
+  registerHeaders(name, extractHeaders, headerNames);
+}
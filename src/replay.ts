@@ -0,0 +1,185 @@
+import { computeHashHex } from './utils/crypto.js';
+import { computeHashHexAsync } from './utils/webcrypto.js';
+import { failure } from './utils/result.js';
+import { getTimestampWindow, requiresTimestamp } from './policy.js';
+import type { SignatureData } from './headers.js';
+import type {
+  Provider,
+  ReplayStore,
+  VerificationResult,
+  VerifyOptions,
+} from './types.js';
+
+/**
+ * Options for createMemoryReplayStore()
+ */
+export interface MemoryReplayStoreOptions {
+  /**
+   * Maximum number of deliveries to remember; the least recently seen are evicted first (default: 10000)
+   */
+  maxSize?: number;
+  /**
+   * The current time in milliseconds, used to expire entries; pass the same
+   * clock as verify() (default: Date.now)
+   */
+  clock?: () => number;
+}
+
+/**
+ * Seconds to remember deliveries whose signatures never expire (7 days)
+ */
+const DEFAULT_REPLAY_TTL = 604800;
+
+/**
+ * Create an in-memory replay store with LRU eviction
+ *
+ * Entries expire after the TTL given by verify(), measured with `clock`.
+ * The store lives in the current process only; use a shared store (e.g.
+ * Redis) when several instances receive webhooks.
+ *
+ * @param options - Store options
+ * @returns A replay store for the `replayStore` option
+ *
+ * @example
+ * ```typescript
+ * import { verify, createMemoryReplayStore } from 'webhook-verify';
+ *
+ * const replayStore = createMemoryReplayStore({ maxSize: 50000 });
+ *
+ * const isValid = verify('stripe', req.rawBody, req.headers, secret, { replayStore });
+ * // A second delivery of the same request is rejected
+ * ```
+ */
+export function createMemoryReplayStore(options: MemoryReplayStoreOptions = {}): ReplayStore {
+  const { maxSize = 10000, clock = Date.now } = options;
+
+  // Map iteration order doubles as recency order: oldest first
+  const expiries = new Map<string, number>();
+
+  return {
+    has(key) {
+      const expiresAt = expiries.get(key);
+      if (expiresAt === undefined) {
+        return false;
+      }
+
+      expiries.delete(key);
+      if (expiresAt <= clock()) {
+        return false;
+      }
+
+      expiries.set(key, expiresAt);
+      return true;
+    },
+
+    add(key, ttlSeconds) {
+      expiries.delete(key);
+      expiries.set(key, clock() + ttlSeconds * 1000);
+
+      while (expiries.size > maxSize) {
+        expiries.delete(expiries.keys().next().value!);
+      }
+    },
+  };
+}
+
+/**
+ * Providers whose delivery ID is covered by the signature
+ */
+const SIGNED_DELIVERY_IDS: ReadonlySet<Provider> = new Set(['svix', 'clerk', 'standard-webhooks']);
+
+/**
+ * Store key of a delivery whose provider signs its delivery ID
+ */
+function signedDeliveryKey(provider: Provider, signatureData: SignatureData): string | undefined {
+  return SIGNED_DELIVERY_IDS.has(provider) && signatureData.deliveryId
+    ? `${provider}:${signatureData.deliveryId}`
+    : undefined;
+}
+
+/**
+ * Store key of a delivery from its signed timestamp and the SHA-256 digest of its body
+ *
+ * A captured delivery can be resent with its signature header re-encoded (hex
+ * case, extra or reordered entries, ECDSA's second valid signature) or with a
+ * new unsigned delivery ID header, so neither identifies it; what the sender
+ * signed does.
+ */
+function payloadKey(provider: Provider, result: VerificationResult, digest: string): string {
+  return result.timestamp === undefined ? `${provider}:${digest}` : `${provider}:${result.timestamp}:${digest}`;
+}
+
+/**
+ * Work out how long to remember a verified delivery, in seconds
+ */
+function replayTtl(provider: Provider, result: VerificationResult, options?: VerifyOptions): number {
+  // Discord reports its timestamp, but only checks it under a security policy
+  const timestampChecked = result.timestamp !== undefined && (provider !== 'discord' || requiresTimestamp(options));
+  if (!timestampChecked) {
+    return options?.replayTtl ?? DEFAULT_REPLAY_TTL;
+  }
+
+  // A signature only verifies while its timestamp is between maxAge before
+  // and maxFutureSkew after now, so their sum covers the whole replay window
+  const { maxAge, maxFutureSkew } = getTimestampWindow(options);
+  return maxAge + maxFutureSkew;
+}
+
+/**
+ * Reject a verified delivery that was seen before, and remember it otherwise
+ */
+export function checkReplay(
+  provider: Provider,
+  payload: string | Buffer,
+  result: VerificationResult,
+  signatureData: SignatureData,
+  options?: VerifyOptions
+): VerificationResult {
+  const store = options?.replayStore;
+  if (!result.valid || !store) {
+    return result;
+  }
+
+  const key =
+    signedDeliveryKey(provider, signatureData) ?? payloadKey(provider, result, computeHashHex('sha256', payload));
+
+  const seen = store.has(key);
+  if (typeof seen !== 'boolean') {
+    throw new Error('Async replay stores require verifyAsync() or verifyDetailedAsync()');
+  }
+  if (seen) {
+    return failure('replay_detected', result.timestamp);
+  }
+
+  if (store.add(key, replayTtl(provider, result, options)) instanceof Promise) {
+    throw new Error('Async replay stores require verifyAsync() or verifyDetailedAsync()');
+  }
+  return result;
+}
+
+/**
+ * Reject a verified delivery that was seen before, and remember it otherwise (async stores)
+ */
+export async function checkReplayAsync(
+  provider: Provider,
+  payload: string | Uint8Array,
+  result: VerificationResult,
+  signatureData: SignatureData,
+  options?: VerifyOptions
+): Promise<VerificationResult> {
+  const store = options?.replayStore;
+  if (!result.valid || !store) {
+    return result;
+  }
+
+  const key =
+    signedDeliveryKey(provider, signatureData) ??
+    payloadKey(provider, result, await computeHashHexAsync('sha256', payload));
+
+  if (await store.has(key)) {
+    return failure('replay_detected', result.timestamp);
+  }
+
+  await store.add(key, replayTtl(provider, result, options));
+  return result;
+}
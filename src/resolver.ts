@@ -0,0 +1,169 @@
+import { getHeader } from './utils/headers.js';
+import { toUtf8String } from './utils/webcrypto.js';
+import type { Headers, SignatureData } from './headers.js';
+import type { Provider, VerifyOptions } from './types.js';
+
+/**
+ * Request fields commonly used to pick a tenant's secret
+ */
+export interface RoutingFields {
+  /** Shopify shop domain (X-Shopify-Shop-Domain header) */
+  shopDomain?: string;
+  /** Stripe Connect account ID (the event's `account` field) */
+  account?: string;
+  /** GitHub App installation ID (the payload's `installation.id`) */
+  installationId?: string;
+  /** GitHub webhook ID (X-GitHub-Hook-ID header) */
+  hookId?: string;
+  /** Slack workspace ID (the payload's `team_id`) */
+  teamId?: string;
+  /** Svix application ID (the payload's `app_id` or `appId` field, when the sender includes it) */
+  appId?: string;
+}
+
+/**
+ * Information passed to a secret resolver
+ */
+export interface SecretContext {
+  /** The webhook provider name */
+  provider: Provider;
+  /** Request headers (empty if a signature string was passed) */
+  headers: Headers;
+  /** Signature data extracted from the headers */
+  signatureData: SignatureData;
+  /** Routing fields parsed from the headers and body */
+  routing: RoutingFields;
+  /** The raw request body */
+  payload: string | Uint8Array;
+}
+
+/**
+ * Secret(s) returned by a resolver: tried in order, the first as primary secret.
+ * Return undefined or an empty array when no secret is known for the request.
+ */
+export type SecretCandidates = string | string[] | null | undefined;
+
+/**
+ * Callback choosing the secret(s) for a request, e.g. per tenant
+ */
+export type SecretResolver = (context: SecretContext) => SecretCandidates | Promise<SecretCandidates>;
+
+/**
+ * Parse a JSON or URL-encoded body, ignoring bodies that are neither
+ */
+function parseBody(payload: string | Uint8Array): Record<string, unknown> {
+  const text = toUtf8String(payload);
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+}
+
+/**
+ * Return a field as a string if it is a string or number
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+}
+
+/**
+ * Extract the routing fields relevant to a provider
+ */
+function extractRouting(provider: Provider, headers: Headers, payload: string | Uint8Array): RoutingFields {
+  switch (provider) {
+    case 'shopify':
+      return { shopDomain: getHeader(headers, 'x-shopify-shop-domain') };
+    case 'stripe':
+      return { account: asString(parseBody(payload).account) };
+    case 'github': {
+      const installation = parseBody(payload).installation as Record<string, unknown> | undefined;
+      return {
+        installationId: asString(installation?.id),
+        hookId: getHeader(headers, 'x-github-hook-id'),
+      };
+    }
+    case 'slack':
+      return { teamId: asString(parseBody(payload).team_id) };
+    case 'svix':
+    case 'clerk':
+    case 'standard-webhooks': {
+      const body = parseBody(payload);
+      return { appId: asString(body.app_id ?? body.appId) };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Build the context passed to a secret resolver
+ */
+function buildContext(
+  provider: Provider,
+  payload: string | Uint8Array,
+  signatureOrHeaders: string | Headers,
+  signatureData: SignatureData
+): SecretContext {
+  const headers = typeof signatureOrHeaders === 'string' ? {} : signatureOrHeaders;
+  return {
+    provider,
+    headers,
+    signatureData,
+    routing: extractRouting(provider, headers, payload),
+    payload,
+  };
+}
+
+/**
+ * Normalize resolved secrets and append options.additionalSecrets
+ *
+ * Empty entries are kept so each secret's position (its secretIndex) stays
+ * the same; callers skip them while matching.
+ */
+function toSecretList(candidates: SecretCandidates, options?: VerifyOptions): string[] {
+  const resolved = typeof candidates === 'string' ? [candidates] : (candidates ?? []);
+  return [...resolved, ...(options?.additionalSecrets ?? [])];
+}
+
+/**
+ * Resolve the secrets to try, in order
+ */
+export function resolveSecrets(
+  provider: Provider,
+  payload: string | Uint8Array,
+  signatureOrHeaders: string | Headers,
+  signatureData: SignatureData,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): string[] {
+  if (typeof secret !== 'function') {
+    return toSecretList(secret, options);
+  }
+
+  const candidates = secret(buildContext(provider, payload, signatureOrHeaders, signatureData));
+  if (candidates instanceof Promise) {
+    throw new Error('Async secret resolvers require verifyAsync() or verifyDetailedAsync()');
+  }
+  return toSecretList(candidates, options);
+}
+
+/**
+ * Resolve the secrets to try, in order (async resolvers)
+ */
+export async function resolveSecretsAsync(
+  provider: Provider,
+  payload: string | Uint8Array,
+  signatureOrHeaders: string | Headers,
+  signatureData: SignatureData,
+  secret: string | SecretResolver,
+  options?: VerifyOptions
+): Promise<string[]> {
+  if (typeof secret !== 'function') {
+    return toSecretList(secret, options);
+  }
+
+  const candidates = await secret(buildContext(provider, payload, signatureOrHeaders, signatureData));
+  return toSecretList(candidates, options);
+}
@@ -1,7 +1,9 @@
+import type { Headers, SignatureData } from './headers.js';
+
 /**
- * Supported webhook providers
+ * Built-in webhook providers
  */
-export type Provider =
+export type BuiltInProvider =
   | 'stripe'
   | 'github'
   | 'shopify'
@@ -22,7 +24,88 @@ export type Provider =
   | 'zendesk'
   | 'square'
   | 'hubspot'
-  | 'segment';
+  | 'segment'
+  | 'standard-webhooks';
+
+/**
+ * Names of providers added at runtime with registerProvider()
+ *
+ * Augment this interface so custom provider names are accepted by TypeScript:
+ *
+ * ```typescript
+ * declare module 'webhook-verify' {
+ *   interface CustomProviders {
+ *     acme: true;
+ *   }
+ * }
+ * ```
+ */
+export interface CustomProviders {}
+
+/**
+ * Supported webhook providers (built-in and registered)
+ */
+export type Provider = BuiltInProvider | Extract<keyof CustomProviders, string>;
+
+/**
+ * Store of already-seen webhook deliveries, used for replay protection
+ *
+ * Methods may return promises (e.g. for Redis); such stores only work with
+ * verifyAsync() and verifyDetailedAsync().
+ */
+export interface ReplayStore {
+  /**
+   * Check whether a delivery has been seen (and has not expired)
+   */
+  has(key: string): boolean | Promise<boolean>;
+  /**
+   * Remember a delivery for the given number of seconds
+   */
+  add(key: string, ttlSeconds: number): void | Promise<void>;
+}
+
+/**
+ * Security checks applied on top of each provider's signature scheme
+ *
+ * Set globally with configure(), or per call with the `policy` option (which
+ * takes precedence). All checks are off by default.
+ */
+export interface SecurityPolicy {
+  /**
+   * Turn on every check below with its strict setting; checks set explicitly
+   * still take precedence
+   */
+  strict?: boolean;
+  /**
+   * Require and check the signed timestamp of providers that send one, such as
+   * Slack, SendGrid and Discord (strict: true)
+   */
+  requireTimestamp?: boolean;
+  /**
+   * Largest timestamp tolerance in seconds; larger `tolerance`, `maxAge` and
+   * `maxFutureSkew` options are lowered to it without an error, so a timestamp
+   * outside the lowered window fails with `timestamp_expired` (strict: 300)
+   */
+  maxTolerance?: number;
+  /**
+   * Weakest hash accepted in a signature (strict: 'sha256', which rejects the
+   * SHA-1 signatures of Twilio, Intercom, Vercel and Segment)
+   */
+  minHashStrength?: 'sha1' | 'sha256' | 'sha512';
+  /**
+   * Reject legacy signature schemes, such as HubSpot v1 and v2 (strict: true)
+   */
+  rejectLegacySchemes?: boolean;
+}
+
+/**
+ * Security policy check that rejected a webhook
+ *
+ * - `missing_timestamp` - the provider sends a signed timestamp, but none was given
+ * - `weak_hash` - the signature uses a hash weaker than `minHashStrength`
+ * - `legacy_scheme` - the signature uses a legacy scheme
+ */
+export type PolicyViolation = 'missing_timestamp' | 'weak_hash' | 'legacy_scheme';
 
 /**
  * Base options available to all providers
@@ -34,6 +117,22 @@ export interface BaseOptions {
    * during a transition period.
    */
   additionalSecrets?: string[];
+  /**
+   * Reject deliveries that were already verified once.
+   * Deliveries are identified by the provider's delivery ID header (svix-id,
+   * X-GitHub-Delivery, ...) or, failing that, by their signature.
+   */
+  replayStore?: ReplayStore;
+  /**
+   * Seconds to remember deliveries without a checked timestamp (GitHub,
+   * Shopify, Twilio, ...), whose signatures never expire (default: 604800 = 7 days).
+   * Deliveries with a checked timestamp are remembered while it is within tolerance.
+   */
+  replayTtl?: number;
+  /**
+   * Security checks for this call, over those set with configure()
+   */
+  policy?: SecurityPolicy;
 }
 
 /**
@@ -41,9 +140,23 @@ export interface BaseOptions {
  */
 export interface TimestampOptions extends BaseOptions {
   /**
-   * Maximum age of the webhook in seconds (default: 300 = 5 minutes)
+   * Maximum age of the webhook in seconds, and how far its timestamp may be
+   * in the future (default: 300 = 5 minutes)
    */
   tolerance?: number;
+  /**
+   * Maximum age of the webhook in seconds (default: tolerance)
+   */
+  maxAge?: number;
+  /**
+   * How far the webhook's timestamp may be ahead of the clock, in seconds (default: tolerance)
+   */
+  maxFutureSkew?: number;
+  /**
+   * The current time in milliseconds, e.g. to verify a stored webhook as of
+   * its receipt time (default: Date.now)
+   */
+  clock?: () => number;
 }
 
 /**
@@ -51,19 +164,21 @@ export interface TimestampOptions extends BaseOptions {
  */
 export interface TwilioOptions extends BaseOptions {
   /**
-   * The full URL of the webhook endpoint (required for Twilio validation)
+   * The full URL of the webhook endpoint (required for Twilio validation), or a list of
+   * candidate URLs tried in turn (see urlVariants())
    */
-  url: string;
+  url: string | string[];
 }
 
 /**
  * Crystallize-specific options requiring URL and method
  */
-export interface CrystallizeOptions extends BaseOptions {
+export interface CrystallizeOptions extends BaseOptions, Pick<TimestampOptions, 'maxAge' | 'clock'> {
   /**
-   * The full URL of the webhook endpoint (required for Crystallize validation)
+   * The full URL of the webhook endpoint (required for Crystallize validation), or a list of
+   * candidate URLs tried in turn (see urlVariants())
    */
-  url: string;
+  url: string | string[];
   /**
    * The HTTP method (default: 'POST')
    */
@@ -75,27 +190,25 @@ export interface CrystallizeOptions extends BaseOptions {
  */
 export interface SquareOptions extends BaseOptions {
   /**
-   * The full URL of the webhook endpoint (required for Square validation)
+   * The full URL of the webhook endpoint (required for Square validation), or a list of
+   * candidate URLs tried in turn (see urlVariants())
    */
-  url: string;
+  url: string | string[];
 }
 
 /**
  * HubSpot-specific options requiring URL and method
  */
-export interface HubSpotOptions extends BaseOptions {
+export interface HubSpotOptions extends TimestampOptions {
   /**
-   * The full URL of the webhook endpoint (required for HubSpot v3 validation)
+   * The full URL of the webhook endpoint (required for HubSpot v3 validation), or a list of
+   * candidate URLs tried in turn (see urlVariants())
    */
-  url: string;
+  url: string | string[];
   /**
    * The HTTP method (default: 'POST')
    */
   method?: string;
-  /**
-   * Maximum age of the webhook in seconds (default: 300 = 5 minutes)
-   */
-  tolerance?: number;
 }
 
 /**
@@ -103,6 +216,74 @@ export interface HubSpotOptions extends BaseOptions {
  */
 export type VerifyOptions = BaseOptions | TimestampOptions | TwilioOptions | CrystallizeOptions | SquareOptions | HubSpotOptions;
 
+/**
+ * Options for sign()
+ */
+export interface SignOptions {
+  /**
+   * Unix timestamp in seconds to sign with (default: now)
+   */
+  timestamp?: number;
+  /**
+   * The full URL of the webhook endpoint (required for Twilio, Square, HubSpot and Crystallize)
+   */
+  url?: string;
+  /**
+   * The HTTP method (default: 'POST')
+   */
+  method?: string;
+  /**
+   * Message ID for Svix-based providers (default: random)
+   */
+  id?: string;
+}
+
+/**
+ * Reason a webhook failed verification
+ *
+ * - `missing_header` - the signature (or its header) was not provided
+ * - `malformed_signature` - the signature could not be parsed
+ * - `timestamp_expired` - the signed timestamp is older than the tolerance
+ * - `timestamp_in_future` - the signed timestamp is ahead of the clock by more than the tolerance
+ * - `signature_mismatch` - the signature does not match the payload and secret
+ * - `missing_option` - a required option (e.g. `url`) was not provided
+ * - `invalid_key` - the secret or public key is empty or could not be parsed
+ * - `replay_detected` - the delivery was already verified once (see `replayStore`)
+ * - `invalid_payload` - the body could not be decoded, or was verified but could not be parsed (verifyAndParse())
+ * - `payload_too_large` - the body exceeds the maximum size (readAndVerify() and the middleware)
+ * - `invalid_claims` - the JWT algorithm or a claim (`aud`, `iss`) is not accepted
+ * - `policy_violation` - the webhook does not meet the security policy (see `policyViolation`)
+ */
+export type VerificationFailureReason =
+  | 'missing_header'
+  | 'malformed_signature'
+  | 'timestamp_expired'
+  | 'timestamp_in_future'
+  | 'signature_mismatch'
+  | 'missing_option'
+  | 'invalid_key'
+  | 'replay_detected'
+  | 'invalid_payload'
+  | 'payload_too_large'
+  | 'invalid_claims'
+  | 'policy_violation';
+
+/**
+ * Detailed outcome of a webhook verification
+ */
+export interface VerificationResult {
+  /** true if the signature is valid */
+  valid: boolean;
+  /** Why verification failed (only set when valid is false) */
+  reason?: VerificationFailureReason;
+  /** Index of the secret that matched: 0 for the primary secret, 1+ for additionalSecrets */
+  secretIndex?: number;
+  /** Timestamp parsed from the signature (Unix seconds), for providers that sign one */
+  timestamp?: number;
+  /** The policy check that failed (only set when reason is 'policy_violation') */
+  policyViolation?: PolicyViolation;
+}
+
 /**
  * Internal interface for provider verification functions
  */
@@ -121,8 +302,120 @@ export interface ProviderVerifier {
     secret: string,
     options?: VerifyOptions
   ): boolean;
+
+  /**
+   * Verify a webhook payload and report why verification failed
+   * @param payload - The raw request body (string or Buffer)
+   * @param signature - The signature from the webhook header
+   * @param secret - The webhook secret or public key
+   * @param options - Provider-specific options
+   * @returns The verification result
+   */
+  verifyDetailed(
+    payload: string | Buffer,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): VerificationResult;
+
+  /**
+   * Verify a webhook payload using WebCrypto (works in edge runtimes)
+   * @param payload - The raw request body (string or bytes)
+   * @param signature - The signature from the webhook header
+   * @param secret - The webhook secret or public key
+   * @param options - Provider-specific options
+   * @returns The verification result
+   */
+  verifyDetailedAsync(
+    payload: string | Uint8Array,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): Promise<VerificationResult>;
+
+  /**
+   * Sign a webhook payload the way the provider would
+   * @param payload - The raw request body (string or Buffer)
+   * @param secret - The webhook secret, or the private key for asymmetric providers
+   * @param options - Signing options
+   * @returns The signature headers the provider would send
+   */
+  sign(
+    payload: string | Buffer,
+    secret: string,
+    options?: SignOptions
+  ): Record<string, string>;
+}
+
+/**
+ * Definition of a custom provider passed to registerProvider()
+ */
+export interface ProviderDefinition {
+  /**
+   * Verify a webhook payload
+   * @returns true if the signature is valid, false otherwise
+   */
+  verify(
+    payload: string | Buffer,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): boolean;
+
+  /**
+   * Verify a webhook payload and report why verification failed
+   * (optional - derived from verify() if omitted)
+   */
+  verifyDetailed?(
+    payload: string | Buffer,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): VerificationResult;
+
+  /**
+   * Verify a webhook payload asynchronously
+   * (optional - derived from verifyDetailed() if omitted)
+   */
+  verifyDetailedAsync?(
+    payload: string | Uint8Array,
+    signature: string,
+    secret: string,
+    options?: VerifyOptions
+  ): Promise<VerificationResult>;
+
+  /**
+   * Sign a webhook payload (optional - sign() throws for this provider if omitted)
+   */
+  sign?(
+    payload: string | Buffer,
+    secret: string,
+    options?: SignOptions
+  ): Record<string, string>;
+
+  /**
+   * Extract the signature from request headers, or return null if missing
+   */
+  extractHeaders(headers: Headers): SignatureData | null;
+
+  /**
+   * Header names used by this provider (returned by getHeaderNames())
+   */
+  headerNames: Record<string, string>;
+
+  /**
+   * The body the sender signs when it compresses the request (Content-Encoding):
+   * 'raw' for the bytes as sent (default), 'decoded' for the uncompressed body.
+   * readAndVerify() and the Express middleware only decode bodies for 'decoded'.
+   */
+  signedBody?: SignedBody;
 }
 
+/**
+ * The body a provider signs when it compresses the request
+ */
+export type SignedBody = 'raw' | 'decoded';
+
 /**
  * Registry of all provider verifiers
  */
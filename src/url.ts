@@ -0,0 +1,232 @@
+import { getHeader } from './utils/headers.js';
+import type { Headers } from './headers.js';
+import type { ProviderVerifier, VerifyOptions } from './types.js';
+
+/**
+ * Options for resolveRequestUrl()
+ */
+export interface ResolveRequestUrlOptions {
+  /**
+   * Trust the `Forwarded` (RFC 7239) and `X-Forwarded-Proto`, `X-Forwarded-Host`
+   * and `X-Forwarded-Port` headers (default: false). Only enable behind a proxy
+   * that sets them, as clients can send them too.
+   */
+  trustProxy?: boolean;
+  /**
+   * The public origin of the app, optionally with a path prefix
+   * (e.g. 'https://api.example.com/app'). Takes precedence over all headers.
+   */
+  publicBaseUrl?: string;
+  /** The scheme of the connection to the app, when no proxy header sets one (default: 'http') */
+  protocol?: 'http' | 'https';
+}
+
+/**
+ * Default port of each scheme, omitted from resolved URLs
+ */
+const DEFAULT_PORTS: Record<string, string> = { http: '80', https: '443' };
+
+/**
+ * First value of a comma-separated header set by a chain of proxies (the client-facing proxy's)
+ */
+function firstValue(value: string | undefined): string | undefined {
+  const first = value?.split(',')[0].trim();
+  return first || undefined;
+}
+
+/**
+ * Parse the first element of an RFC 7239 Forwarded header into lowercase-named parameters
+ */
+function parseForwarded(value: string | undefined): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (!value) {
+    return params;
+  }
+
+  // Elements are comma-separated and parameters semicolon-separated; values may be quoted
+  const element = value.match(/^(?:[^,"]|"(?:[^"\\]|\\.)*")*/)?.[0] ?? '';
+  for (const pair of element.match(/[^;="\s]+\s*=\s*(?:"(?:[^"\\]|\\.)*"|[^;]*)/g) ?? []) {
+    const separator = pair.indexOf('=');
+    const name = pair.slice(0, separator).trim().toLowerCase();
+    const raw = pair.slice(separator + 1).trim();
+    params[name] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+  }
+
+  return params;
+}
+
+/**
+ * Split a host into hostname and port, keeping IPv6 brackets
+ */
+function splitHost(host: string): [string, string | undefined] {
+  const match = host.match(/^(\[[^\]]*\]|[^:]*)(?::(\d+))?$/);
+  return match ? [match[1], match[2]] : [host, undefined];
+}
+
+/**
+ * Reconstruct the public URL of a request, as the webhook sender signed it
+ *
+ * Behind a load balancer the app sees its internal address (e.g.
+ * `http://internal:8080/...`), while URL-signing providers (Twilio, Square,
+ * HubSpot, Crystallize) sign the public one. With `publicBaseUrl`, the path is
+ * appended to it. With `trustProxy`, the scheme and host come from the RFC 7239
+ * `Forwarded` header, then `X-Forwarded-Proto`, `X-Forwarded-Host` and
+ * `X-Forwarded-Port`, then the `Host` header. Default ports are omitted.
+ *
+ * @param headers - The request headers
+ * @param path - The request path with query string (e.g. `req.originalUrl`)
+ * @param options - Proxy trust and public base URL
+ * @returns The full request URL
+ * @throws Error if the URL cannot be resolved (no `publicBaseUrl` and no host)
+ *
+ * @example
+ * ```typescript
+ * import { verify, resolveRequestUrl } from 'webhook-verify';
+ *
+ * const url = resolveRequestUrl(req.headers, req.originalUrl, { trustProxy: true });
+ * verify('twilio', req.rawBody, req.headers, authToken, { url });
+ * ```
+ */
+export function resolveRequestUrl(headers: Headers, path: string, options: ResolveRequestUrlOptions = {}): string {
+  const { trustProxy = false, publicBaseUrl, protocol = 'http' } = options;
+  const pathname = path.startsWith('/') ? path : `/${path}`;
+
+  if (publicBaseUrl) {
+    return publicBaseUrl.replace(/\/+$/, '') + pathname;
+  }
+
+  let scheme: string = protocol;
+  let host = getHeader(headers, 'host');
+  let port: string | undefined;
+
+  if (trustProxy) {
+    const forwarded = parseForwarded(getHeader(headers, 'forwarded'));
+    const forwardedProto = forwarded.proto ?? firstValue(getHeader(headers, 'x-forwarded-proto'));
+    const forwardedHost = forwarded.host ?? firstValue(getHeader(headers, 'x-forwarded-host'));
+
+    scheme = forwardedProto?.toLowerCase() ?? scheme;
+    host = forwardedHost ?? host;
+    port = forwarded.host ? undefined : firstValue(getHeader(headers, 'x-forwarded-port'));
+  }
+
+  if (!host) {
+    throw new Error('Cannot resolve the request URL: no Host header (set publicBaseUrl)');
+  }
+
+  const [hostname, hostPort] = splitHost(host);
+  const effectivePort = hostPort ?? port;
+  const portSuffix = effectivePort && effectivePort !== DEFAULT_PORTS[scheme] ? `:${effectivePort}` : '';
+
+  return `${scheme}://${hostname}${portSuffix}${pathname}`;
+}
+
+/**
+ * Forms of a URL that senders commonly sign instead of the canonical one:
+ * with and without the scheme's default port, and with and without a
+ * trailing slash on the path. The URL itself comes first.
+ *
+ * Pass the result as the `url` option of URL-signing providers, which try
+ * each candidate in turn.
+ *
+ * @param url - The request URL
+ * @returns The URL and its variants, without duplicates
+ *
+ * @example
+ * ```typescript
+ * urlVariants('https://example.com/sms');
+ * // ['https://example.com/sms', 'https://example.com/sms/',
+ * //  'https://example.com:443/sms', 'https://example.com:443/sms/']
+ * ```
+ */
+export function urlVariants(url: string): string[] {
+  const match = url.match(/^([a-z][a-z\d+.-]*):\/\/([^/?#]*)([^?#]*)(.*)$/i);
+  if (!match) {
+    return [url];
+  }
+
+  const [, scheme, host, path, rest] = match;
+  const [hostname, port] = splitHost(host);
+  const defaultPort = DEFAULT_PORTS[scheme.toLowerCase()];
+  const hosts = defaultPort && (!port || port === defaultPort) ? [host, `${hostname}:${defaultPort}`, hostname] : [host];
+  const bare = path.replace(/\/+$/, '');
+  const paths = [path, bare || '/', `${bare}/`];
+
+  const variants = new Set<string>([url]);
+  for (const candidateHost of hosts) {
+    for (const candidatePath of paths) {
+      variants.add(`${scheme}://${candidateHost}${candidatePath}${rest}`);
+    }
+  }
+
+  return [...variants];
+}
+
+/**
+ * Candidate URLs from the `url` option, or null when it is a single URL or missing
+ */
+function urlCandidates(options: VerifyOptions | undefined): string[] | null {
+  const url = (options as { url?: string | string[] } | undefined)?.url;
+  return Array.isArray(url) ? url : null;
+}
+
+/**
+ * Options with `url` set to a single candidate
+ */
+function withUrl(options: VerifyOptions | undefined, url: string | undefined): VerifyOptions {
+  return { ...options, url } as VerifyOptions;
+}
+
+/**
+ * Let a URL-signing provider accept a list of candidate URLs as its `url` option
+ *
+ * Each candidate is verified in turn; the first valid result is returned, or
+ * the last failure. An empty list is treated as a missing `url`.
+ */
+export function acceptUrlCandidates<T extends ProviderVerifier>(verifier: T): T {
+  return {
+    ...verifier,
+
+    verify(payload, signature, secret, options?) {
+      const urls = urlCandidates(options);
+      if (!urls) {
+        return verifier.verify(payload, signature, secret, options);
+      }
+      if (urls.length === 0) {
+        return verifier.verify(payload, signature, secret, withUrl(options, undefined));
+      }
+      return urls.some((url) => verifier.verify(payload, signature, secret, withUrl(options, url)));
+    },
+
+    verifyDetailed(payload, signature, secret, options?) {
+      const urls = urlCandidates(options);
+      if (!urls) {
+        return verifier.verifyDetailed(payload, signature, secret, options);
+      }
+
+      let result = verifier.verifyDetailed(payload, signature, secret, withUrl(options, urls[0]));
+      for (const url of urls.slice(1)) {
+        if (result.valid) {
+          break;
+        }
+        result = verifier.verifyDetailed(payload, signature, secret, withUrl(options, url));
+      }
+      return result;
+    },
+
+    async verifyDetailedAsync(payload, signature, secret, options?) {
+      const urls = urlCandidates(options);
+      if (!urls) {
+        return verifier.verifyDetailedAsync(payload, signature, secret, options);
+      }
+
+      let result = await verifier.verifyDetailedAsync(payload, signature, secret, withUrl(options, urls[0]));
+      for (const url of urls.slice(1)) {
+        if (result.valid) {
+          break;
+        }
+        result = await verifier.verifyDetailedAsync(payload, signature, secret, withUrl(options, url));
+      }
+      return result;
+    },
+  };
+}
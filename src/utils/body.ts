@@ -0,0 +1,106 @@
+import { promisify } from 'util';
+import { brotliDecompress, gunzip, inflate } from 'zlib';
+import type { IncomingMessage } from 'http';
+import type { Readable } from 'stream';
+
+/**
+ * Decompressors for the supported Content-Encoding values
+ */
+const decoders: Record<string, (body: Buffer, options: { maxOutputLength: number }) => Promise<Buffer>> = {
+  gzip: promisify(gunzip),
+  'x-gzip': promisify(gunzip),
+  deflate: promisify(inflate),
+  br: promisify(brotliDecompress),
+};
+
+/**
+ * Read a request body stream into a Buffer
+ *
+ * Resolves to null as soon as the body exceeds maxSize bytes. The stream is
+ * then paused rather than destroyed, so a response can still be sent.
+ */
+export function readBody(stream: Readable, maxSize: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const cleanup = () => {
+      stream.off('data', onData);
+      stream.off('end', onEnd);
+      stream.off('error', onError);
+    };
+
+    const onData = (chunk: Buffer | string) => {
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > maxSize) {
+        cleanup();
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(buffer);
+    };
+
+    const onEnd = () => {
+      cleanup();
+      resolve(Buffer.concat(chunks));
+    };
+
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+
+    stream.on('data', onData);
+    stream.on('end', onEnd);
+    stream.on('error', onError);
+  });
+}
+
+/**
+ * Outcome of readRequestBody(): the body, or why it could not be read
+ */
+export type RequestBodyResult = { body: Buffer } | { reason: 'payload_too_large' | 'invalid_payload' };
+
+/**
+ * Read an HTTP request body, rejecting bodies over maxSize bytes
+ *
+ * A Content-Length over the limit is rejected before reading. With decompress,
+ * gzip, deflate and br bodies are decoded (the decoded size is limited too) and
+ * unknown encodings are rejected as `invalid_payload`.
+ */
+export async function readRequestBody(
+  req: IncomingMessage,
+  maxSize: number,
+  decompress: boolean
+): Promise<RequestBodyResult> {
+  const declaredLength = Number(req.headers['content-length']);
+  if (declaredLength > maxSize) {
+    req.pause();
+    return { reason: 'payload_too_large' };
+  }
+
+  const body = await readBody(req, maxSize);
+  if (body === null) {
+    return { reason: 'payload_too_large' };
+  }
+
+  const encoding = (req.headers['content-encoding'] ?? 'identity').trim().toLowerCase();
+  if (!decompress || encoding === 'identity') {
+    return { body };
+  }
+
+  const decode = decoders[encoding];
+  if (!decode) {
+    return { reason: 'invalid_payload' };
+  }
+
+  try {
+    return { body: await decode(body, { maxOutputLength: maxSize }) };
+  } catch (error) {
+    return {
+      reason: (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE' ? 'payload_too_large' : 'invalid_payload',
+    };
+  }
+}
@@ -1,4 +1,34 @@
-import { createHmac, timingSafeEqual, createVerify, createPublicKey } from 'crypto';
+// Type-only imports: Node's crypto module is passed in by the Node.js entry point
+import type { KeyObject } from 'crypto';
+import type { JwtAlgorithm } from '../algorithms.js';
+import type { JsonWebKey } from '../keyset.js';
+
+type NodeCrypto = typeof import('crypto');
+
+let nodeCryptoModule: NodeCrypto | undefined;
+
+/**
+ * Provide Node's crypto module to the sync verifiers and signing
+ *
+ * Called by the Node.js entry point; the edge entry point never calls it, so
+ * its bundle does not import Node's crypto module.
+ */
+export function setNodeCrypto(module: NodeCrypto): void {
+  nodeCryptoModule = module;
+}
+
+/**
+ * Node's crypto module
+ * @throws Error if it was not provided, i.e. when imported from the edge entry point
+ */
+function nodeCrypto(): NodeCrypto {
+  if (!nodeCryptoModule) {
+    throw new Error(
+      "Sync verification and signing require Node's crypto module: import from 'webhook-verify' instead of 'webhook-verify/edge'"
+    );
+  }
+  return nodeCryptoModule;
+}
 
 /**
  * Compute HMAC signature of a payload
@@ -8,7 +38,7 @@ export function computeHmac(
   secret: string | Buffer,
   payload: string | Buffer
 ): Buffer {
-  return createHmac(algorithm, secret).update(payload).digest();
+  return nodeCrypto().createHmac(algorithm, secret).update(payload).digest();
 }
 
 /**
@@ -33,6 +63,34 @@ export function computeHmacBase64(
   return computeHmac(algorithm, secret, payload).toString('base64');
 }
 
+/**
+ * Compute a hash of a payload and return as hex string
+ */
+export function computeHashHex(algorithm: 'sha1' | 'sha256' | 'sha512', payload: string | Buffer): string {
+  return nodeCrypto().createHash(algorithm).update(payload).digest('hex');
+}
+
+/**
+ * Verify an ECDSA signature with SHA-256 (used by SendGrid)
+ */
+export function verifyEcdsa(publicKey: string | KeyObject, signature: string, message: string | Buffer): boolean {
+  const { createVerify } = nodeCrypto();
+  try {
+    const verify = createVerify('SHA256');
+    verify.update(message);
+    return verify.verify(publicKey, signature, 'base64');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Generate a random UUID (v4)
+ */
+export function randomUuid(): string {
+  return nodeCrypto().randomUUID();
+}
+
 /**
  * Timing-safe string comparison to prevent timing attacks
  */
@@ -41,6 +99,7 @@ export function secureCompare(a: string, b: string): boolean {
     return false;
   }
 
+  const { timingSafeEqual } = nodeCrypto();
   const bufA = Buffer.from(a);
   const bufB = Buffer.from(b);
 
@@ -61,6 +120,7 @@ export function secureCompareBuffer(a: Buffer, b: Buffer): boolean {
     return false;
   }
 
+  const { timingSafeEqual } = nodeCrypto();
   if (a.length !== b.length) {
     timingSafeEqual(a, a);
     return false;
@@ -70,30 +130,24 @@ export function secureCompareBuffer(a: Buffer, b: Buffer): boolean {
 }
 
 /**
- * Verify Ed25519 signature (used by Discord)
+ * Import an Ed25519 public key from hex (SPKI DER or raw 32-byte format)
+ * Returns null if the key cannot be parsed.
  */
-export function verifyEd25519(
-  publicKey: string,
-  signature: string,
-  message: string | Buffer
-): boolean {
+export function importEd25519PublicKey(publicKey: string): KeyObject | null {
+  const { createPublicKey } = nodeCrypto();
   try {
-    const key = createPublicKey({
+    return createPublicKey({
       key: Buffer.from(publicKey, 'hex'),
       format: 'der',
       type: 'spki',
     });
-
-    const verify = createVerify('Ed25519');
-    verify.update(message);
-    return verify.verify(key, Buffer.from(signature, 'hex'));
   } catch {
     // Try raw key format for Ed25519
     try {
       // Ed25519 public key in raw format needs to be wrapped in SPKI
       const rawKey = Buffer.from(publicKey, 'hex');
       if (rawKey.length !== 32) {
-        return false;
+        return null;
       }
 
       // SPKI wrapper for Ed25519 (OID 1.3.101.112)
@@ -102,30 +156,76 @@ export function verifyEd25519(
       ]);
       const spkiKey = Buffer.concat([spkiPrefix, rawKey]);
 
-      const key = createPublicKey({
+      return createPublicKey({
         key: spkiKey,
         format: 'der',
         type: 'spki',
       });
-
-      const verify = createVerify('Ed25519');
-      verify.update(message);
-      return verify.verify(key, Buffer.from(signature, 'hex'));
     } catch {
-      return false;
+      return null;
     }
   }
 }
 
+/**
+ * Import a PEM-encoded public key (RSA or ECDSA)
+ * Returns null if the key cannot be parsed.
+ */
+export function importPublicKey(publicKey: string): KeyObject | null {
+  const { createPublicKey } = nodeCrypto();
+  try {
+    return createPublicKey(publicKey);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Import a public key in JWK format
+ * Returns null if the key cannot be parsed.
+ */
+export function importJwk(jwk: JsonWebKey): KeyObject | null {
+  const { createPublicKey } = nodeCrypto();
+  try {
+    return createPublicKey({ key: jwk, format: 'jwk' });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify Ed25519 signature (used by Discord)
+ */
+export function verifyEd25519(
+  publicKey: string | KeyObject,
+  signature: string,
+  message: string | Buffer
+): boolean {
+  const key = typeof publicKey === 'string' ? importEd25519PublicKey(publicKey) : publicKey;
+  if (!key) {
+    return false;
+  }
+
+  const { verify } = nodeCrypto();
+  try {
+    // Ed25519 has no separate digest, so it must go through crypto.verify with a null algorithm
+    const data = typeof message === 'string' ? Buffer.from(message) : message;
+    return verify(null, data, key, Buffer.from(signature, 'hex'));
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Verify RSA signature (used by Paddle)
  */
 export function verifyRsa(
-  publicKey: string,
+  publicKey: string | KeyObject,
   signature: string,
   message: string | Buffer,
   algorithm: 'RSA-SHA256' | 'RSA-SHA1' = 'RSA-SHA256'
 ): boolean {
+  const { createVerify } = nodeCrypto();
   try {
     const verify = createVerify(algorithm);
     verify.update(message);
@@ -136,20 +236,212 @@ export function verifyRsa(
 }
 
 /**
- * Parse a timestamp from various formats and validate it's within tolerance
+ * Import an Ed25519 private key from PEM or hex (PKCS#8 DER or raw 32-byte seed)
+ * Throws if the key cannot be parsed.
  */
-export function isTimestampValid(
-  timestamp: number | string,
-  toleranceSeconds: number = 300
-): boolean {
+export function importEd25519PrivateKey(privateKey: string): KeyObject {
+  const { createPrivateKey } = nodeCrypto();
+  if (privateKey.includes('-----BEGIN')) {
+    return createPrivateKey(privateKey);
+  }
+
+  const der = Buffer.from(privateKey, 'hex');
+  if (der.length !== 32) {
+    return createPrivateKey({ key: der, format: 'der', type: 'pkcs8' });
+  }
+
+  // PKCS#8 wrapper for a raw Ed25519 seed (OID 1.3.101.112)
+  const pkcs8Prefix = Buffer.from([
+    0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20,
+  ]);
+  return createPrivateKey({ key: Buffer.concat([pkcs8Prefix, der]), format: 'der', type: 'pkcs8' });
+}
+
+/**
+ * Sign a message with an Ed25519 private key and return the hex signature (used by Discord)
+ */
+export function signEd25519(privateKey: string | KeyObject, message: string | Buffer): string {
+  const key = typeof privateKey === 'string' ? importEd25519PrivateKey(privateKey) : privateKey;
+  const data = typeof message === 'string' ? Buffer.from(message) : message;
+  return nodeCrypto().sign(null, data, key).toString('hex');
+}
+
+/**
+ * Sign a message with a PEM-encoded RSA or ECDSA private key and return the
+ * base64 signature (used by Paddle and SendGrid)
+ */
+export function signWithPrivateKey(
+  privateKey: string | KeyObject,
+  message: string | Buffer,
+  algorithm: 'RSA-SHA256' | 'SHA256' = 'SHA256'
+): string {
+  const signer = nodeCrypto().createSign(algorithm);
+  signer.update(message);
+  return signer.sign(privateKey, 'base64');
+}
+
+/**
+ * Hash used by each JWS algorithm
+ */
+const JWS_HASHES: Record<JwtAlgorithm, 'sha256' | 'sha384' | 'sha512' | null> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+  RS256: 'sha256',
+  PS256: 'sha256',
+  ES256: 'sha256',
+  EdDSA: null,
+};
+
+/**
+ * Key options for crypto.verify() and crypto.sign() with a JWS algorithm:
+ * PSS padding for PS256, raw r||s signatures for ES256
+ */
+function jwsKeyOptions(algorithm: JwtAlgorithm, key: KeyObject) {
+  if (algorithm === 'PS256') {
+    const { constants } = nodeCrypto();
+    return { key, padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST };
+  }
+  return algorithm === 'ES256' ? { key, dsaEncoding: 'ieee-p1363' as const } : key;
+}
+
+/**
+ * Verify a JWS signature over "<header>.<payload>"
+ *
+ * HS* algorithms take the shared secret; the others a PEM public key or a JWK
+ * (EdDSA also accepts a hex Ed25519 key). Returns null if the key cannot be used.
+ */
+export function verifyJws(
+  algorithm: JwtAlgorithm,
+  key: string | JsonWebKey,
+  signingInput: string,
+  signature: Uint8Array
+): boolean | null {
+  const hash = JWS_HASHES[algorithm];
+
+  if (algorithm.startsWith('HS')) {
+    // A public key used as an HMAC secret means the algorithm was switched
+    if (typeof key !== 'string' || key.includes('-----BEGIN')) {
+      return null;
+    }
+    return secureCompareBuffer(nodeCrypto().createHmac(hash!, key).update(signingInput).digest(), Buffer.from(signature));
+  }
+
+  let publicKey: KeyObject | null;
+  if (typeof key !== 'string') {
+    publicKey = importJwk(key);
+  } else {
+    publicKey = algorithm === 'EdDSA' && !key.includes('-----BEGIN') ? importEd25519PublicKey(key) : importPublicKey(key);
+  }
+  if (!publicKey) {
+    return null;
+  }
+
+  const { verify } = nodeCrypto();
+  try {
+    return verify(hash, Buffer.from(signingInput), jwsKeyOptions(algorithm, publicKey), signature);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Sign "<header>.<payload>" with a JWS algorithm
+ *
+ * HS* algorithms take the shared secret; the others a PEM private key (EdDSA
+ * also accepts a hex Ed25519 seed). Throws if the key cannot be used.
+ */
+export function signJws(algorithm: JwtAlgorithm, key: string, signingInput: string): Buffer {
+  const hash = JWS_HASHES[algorithm];
+
+  if (algorithm.startsWith('HS')) {
+    return nodeCrypto().createHmac(hash!, key).update(signingInput).digest();
+  }
+
+  const { createPrivateKey, sign } = nodeCrypto();
+  const privateKey = algorithm === 'EdDSA' ? importEd25519PrivateKey(key) : createPrivateKey(key);
+  return sign(hash, Buffer.from(signingInput), jwsKeyOptions(algorithm, privateKey));
+}
+
+/**
+ * Unit of a webhook timestamp
+ */
+export type TimestampUnit = 'seconds' | 'milliseconds';
+
+/**
+ * Parse a timestamp into a positive integer, or null if it is malformed
+ */
+export function parseTimestamp(timestamp: number | string): number | null {
   const ts = typeof timestamp === 'string' ? parseInt(timestamp, 10) : timestamp;
 
   if (isNaN(ts) || ts <= 0) {
-    return false;
+    return null;
+  }
+
+  return ts;
+}
+
+/**
+ * How far a timestamp may be from the clock
+ */
+export interface TimestampWindow {
+  /** Seconds a timestamp may be in the past */
+  maxAge: number;
+  /** Seconds a timestamp may be in the future */
+  maxFutureSkew: number;
+  /** The current time in milliseconds */
+  now: number;
+}
+
+/**
+ * Settings a timestamp window is built from
+ */
+export interface TimestampWindowOptions {
+  tolerance?: number;
+  maxAge?: number;
+  maxFutureSkew?: number;
+  clock?: () => number;
+}
+
+/**
+ * Build the timestamp window from a symmetric tolerance, overridden on either side by maxAge and maxFutureSkew
+ */
+export function toTimestampWindow(options: TimestampWindowOptions = {}, defaultTolerance: number = 300): TimestampWindow {
+  const { tolerance = defaultTolerance, maxAge = tolerance, maxFutureSkew = tolerance, clock = Date.now } = options;
+  return { maxAge, maxFutureSkew, now: clock() };
+}
+
+/**
+ * Check a parsed timestamp against the timestamp window
+ * Returns the failure reason, or null if the timestamp is fresh.
+ */
+export function checkTimestamp(
+  timestamp: number,
+  window: TimestampWindow,
+  unit: TimestampUnit = 'seconds'
+): 'timestamp_expired' | 'timestamp_in_future' | null {
+  const scale = unit === 'milliseconds' ? 1000 : 1;
+  const now = unit === 'milliseconds' ? window.now : Math.floor(window.now / 1000);
+
+  if (now - timestamp > window.maxAge * scale) {
+    return 'timestamp_expired';
+  }
+  if (timestamp - now > window.maxFutureSkew * scale) {
+    return 'timestamp_in_future';
   }
 
-  const now = Math.floor(Date.now() / 1000);
-  const diff = Math.abs(now - ts);
+  return null;
+}
+
+/**
+ * Parse a timestamp from various formats and validate it's within the window
+ */
+export function isTimestampValid(timestamp: number | string, window: TimestampWindow): boolean {
+  const ts = parseTimestamp(timestamp);
+
+  if (ts === null) {
+    return false;
+  }
 
-  return diff <= toleranceSeconds;
+  return checkTimestamp(ts, window) === null;
 }
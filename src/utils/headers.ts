@@ -0,0 +1,21 @@
+import type { Headers } from '../headers.js';
+
+/**
+ * Get header value (handles case-insensitivity and arrays)
+ */
+export function getHeader(headers: Headers, name: string): string | undefined {
+  const nameLower = name.toLowerCase();
+
+  // Search through all headers case-insensitively
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === nameLower) {
+      // Handle array values
+      if (Array.isArray(value)) {
+        return value[0];
+      }
+      return value;
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,51 @@
+import type { IncomingMessage } from 'http';
+import type { TLSSocket } from 'tls';
+
+/**
+ * Request properties set by Express, which honour its `trust proxy` setting
+ */
+interface ExpressRequestProps {
+  protocol?: string;
+  hostname?: string;
+  originalUrl?: string;
+}
+
+/**
+ * Strip the port from a host, keeping IPv6 brackets
+ */
+function stripPort(host: string): string {
+  return host.replace(/:\d*$/, '');
+}
+
+/**
+ * Find the host (with port) of a Node.js request as seen by the client
+ *
+ * Express's `hostname` comes from `X-Forwarded-Host` when the proxy is trusted
+ * and from the `Host` header otherwise, but drops the port. The port is taken
+ * from whichever header Express resolved the hostname from.
+ */
+function requestHost(req: IncomingMessage & ExpressRequestProps): string | undefined {
+  const host = req.headers.host;
+  if (req.hostname === undefined) {
+    return host;
+  }
+
+  const forwardedHeader = req.headers['x-forwarded-host'];
+  const forwarded = (Array.isArray(forwardedHeader) ? forwardedHeader[0] : forwardedHeader)?.split(',')[0].trim();
+  if (forwarded && stripPort(forwarded) === req.hostname) {
+    return forwarded;
+  }
+  if (host && stripPort(host) === req.hostname) {
+    return host;
+  }
+  return req.hostname;
+}
+
+/**
+ * Reconstruct the full URL of a Node.js request as seen by the client
+ * Uses Express's `protocol`, `hostname` and `originalUrl` when present.
+ */
+export function requestUrl(req: IncomingMessage & ExpressRequestProps): string {
+  const protocol = req.protocol ?? ((req.socket as TLSSocket).encrypted ? 'https' : 'http');
+  return `${protocol}://${requestHost(req)}${req.originalUrl ?? req.url}`;
+}
@@ -0,0 +1,49 @@
+import type { VerificationFailureReason, VerificationResult } from '../types.js';
+
+/**
+ * Build a successful verification result
+ */
+export function success(timestamp?: number): VerificationResult {
+  return timestamp === undefined ? { valid: true } : { valid: true, timestamp };
+}
+
+/**
+ * Build a failed verification result
+ */
+export function failure(reason: VerificationFailureReason, timestamp?: number): VerificationResult {
+  return timestamp === undefined ? { valid: false, reason } : { valid: false, reason, timestamp };
+}
+
+/**
+ * Check the inputs shared by every provider, returning a failure if any is empty
+ */
+export function checkInputs(
+  payload: string | Uint8Array,
+  signature: string,
+  secret: string
+): VerificationResult | null {
+  if (!signature) {
+    return failure('missing_header');
+  }
+  if (!secret) {
+    return failure('invalid_key');
+  }
+  if (!payload) {
+    return failure('signature_mismatch');
+  }
+  return null;
+}
+
+/**
+ * HTTP status for a failed verification: 400 when the request is malformed
+ * (missing or unparseable signature headers or body), 413 when the body is
+ * too large, 401 otherwise
+ */
+export function failureStatus(reason: VerificationFailureReason): 400 | 401 | 413 {
+  if (reason === 'payload_too_large') {
+    return 413;
+  }
+  return reason === 'missing_header' || reason === 'malformed_signature' || reason === 'invalid_payload'
+    ? 400
+    : 401;
+}
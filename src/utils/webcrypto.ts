@@ -0,0 +1,451 @@
+/**
+ * WebCrypto-based helpers for the async verification API
+ *
+ * These only use globals available in Node.js 18+, Deno, Bun, Cloudflare Workers
+ * and Vercel Edge (globalThis.crypto.subtle, TextEncoder, TextDecoder, atob, btoa),
+ * so the async path does not depend on Node's crypto module or Buffer. Edge
+ * runtimes load them through the `webhook-verify/edge` entry point, which
+ * imports no Node.js built-in modules.
+ */
+
+// Type-only import: erased at build time, so Node's crypto module is never loaded here
+import type { webcrypto } from 'crypto';
+import type { JwtAlgorithm } from '../algorithms.js';
+import type { JsonWebKey } from '../keyset.js';
+
+type CryptoKey = webcrypto.CryptoKey;
+type SubtleCrypto = webcrypto.SubtleCrypto;
+type ImportParams = Parameters<SubtleCrypto['importKey']>[2];
+type VerifyParams = Parameters<SubtleCrypto['verify']>[0];
+type HashAlgorithm = 'sha1' | 'sha256' | 'sha384' | 'sha512';
+
+const HASH_NAMES: Record<HashAlgorithm, string> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+let nodeSubtle: SubtleCrypto | undefined;
+
+async function getSubtle(): Promise<SubtleCrypto> {
+  const subtle = globalThis.crypto?.subtle;
+  if (subtle) {
+    return subtle;
+  }
+
+  // Node.js 18 only exposes globalThis.crypto behind a flag, so fall back to the
+  // built-in module there. The specifier is a variable to keep edge bundlers from
+  // trying to resolve it.
+  if (!nodeSubtle && typeof process !== 'undefined' && process.versions?.node) {
+    const specifier = 'node:crypto';
+    const { webcrypto } = (await import(specifier)) as typeof import('crypto');
+    nodeSubtle = webcrypto.subtle;
+  }
+  if (!nodeSubtle) {
+    throw new Error('WebCrypto is not available in this runtime (globalThis.crypto.subtle)');
+  }
+  return nodeSubtle;
+}
+
+/**
+ * Convert a string (UTF-8 encoded) or byte array to bytes
+ */
+export function toBytes(data: string | Uint8Array): Uint8Array {
+  return typeof data === 'string' ? encoder.encode(data) : data;
+}
+
+/**
+ * Convert a string or byte array (UTF-8 decoded) to a string
+ */
+export function toUtf8String(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : decoder.decode(data);
+}
+
+/**
+ * Encode bytes as lowercase hex
+ */
+export function bytesToHex(bytes: Uint8Array): string {
+  let hex = '';
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+}
+
+/**
+ * Decode a hex string, or return null if it is not valid hex
+ */
+export function hexToBytes(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    return null;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as standard base64
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64 or base64url string, or return null if it is not valid
+ */
+export function base64ToBytes(base64: string): Uint8Array | null {
+  const normalized = base64.replace(/-/g, '+').replace(/_/g, '/').replace(/\s/g, '');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4)) % 4);
+  try {
+    const binary = atob(padded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Constant-time string comparison that does not depend on Node's crypto module
+ */
+export function constantTimeEqual(a: string, b: string): boolean {
+  if (typeof a !== 'string' || typeof b !== 'string') {
+    return false;
+  }
+
+  const bytesA = encoder.encode(a);
+  const bytesB = encoder.encode(b);
+
+  // Always walk the longer input so the running time does not leak the match length
+  const length = Math.max(bytesA.length, bytesB.length);
+  let diff = bytesA.length ^ bytesB.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (bytesA[i] ?? 0) ^ (bytesB[i] ?? 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Compute the hex digest of a payload using WebCrypto
+ */
+export async function computeHashHexAsync(algorithm: HashAlgorithm, payload: string | Uint8Array): Promise<string> {
+  const subtle = await getSubtle();
+  return bytesToHex(new Uint8Array(await subtle.digest(HASH_NAMES[algorithm], toBytes(payload))));
+}
+
+/**
+ * Compute HMAC signature of a payload using WebCrypto
+ */
+export async function computeHmacAsync(
+  algorithm: HashAlgorithm,
+  secret: string | Uint8Array,
+  payload: string | Uint8Array
+): Promise<Uint8Array> {
+  const subtle = await getSubtle();
+  const key = await subtle.importKey(
+    'raw',
+    toBytes(secret),
+    { name: 'HMAC', hash: HASH_NAMES[algorithm] },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await subtle.sign('HMAC', key, toBytes(payload)));
+}
+
+/**
+ * Compute HMAC signature and return as hex string
+ */
+export async function computeHmacHexAsync(
+  algorithm: HashAlgorithm,
+  secret: string | Uint8Array,
+  payload: string | Uint8Array
+): Promise<string> {
+  return bytesToHex(await computeHmacAsync(algorithm, secret, payload));
+}
+
+/**
+ * Compute HMAC signature and return as base64 string
+ */
+export async function computeHmacBase64Async(
+  algorithm: HashAlgorithm,
+  secret: string | Uint8Array,
+  payload: string | Uint8Array
+): Promise<string> {
+  return bytesToBase64(await computeHmacAsync(algorithm, secret, payload));
+}
+
+/**
+ * Strip PEM armor and decode the DER bytes (also accepts bare base64 DER)
+ */
+function pemToDer(pem: string): Uint8Array | null {
+  const body = pem.replace(/-----(BEGIN|END)[^-]*-----/g, '');
+  const der = base64ToBytes(body);
+  return der && der.length > 0 ? der : null;
+}
+
+/**
+ * Import an Ed25519 public key from hex (SPKI DER or raw 32-byte format)
+ * Resolves to null if the key cannot be parsed.
+ */
+export async function importEd25519PublicKeyAsync(publicKey: string): Promise<CryptoKey | null> {
+  const bytes = hexToBytes(publicKey);
+  if (!bytes) {
+    return null;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.importKey('spki', bytes, { name: 'Ed25519' }, false, ['verify']);
+  } catch {
+    if (bytes.length !== 32) {
+      return null;
+    }
+    try {
+      return await subtle.importKey('raw', bytes, { name: 'Ed25519' }, false, ['verify']);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Verify Ed25519 signature using WebCrypto
+ */
+export async function verifyEd25519Async(
+  publicKey: string | CryptoKey,
+  signature: string,
+  message: string | Uint8Array
+): Promise<boolean> {
+  const key =
+    typeof publicKey === 'string' ? await importEd25519PublicKeyAsync(publicKey) : publicKey;
+  const sig = hexToBytes(signature);
+  if (!key || !sig) {
+    return false;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.verify({ name: 'Ed25519' }, key, sig, toBytes(message));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import a PEM-encoded RSA public key for RSASSA-PKCS1-v1_5 verification
+ * Resolves to null if the key cannot be parsed.
+ */
+export async function importRsaPublicKeyAsync(
+  publicKey: string,
+  algorithm: 'RSA-SHA256' | 'RSA-SHA1' = 'RSA-SHA256'
+): Promise<CryptoKey | null> {
+  const der = pemToDer(publicKey);
+  if (!der) {
+    return null;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.importKey(
+      'spki',
+      der,
+      { name: 'RSASSA-PKCS1-v1_5', hash: algorithm === 'RSA-SHA1' ? 'SHA-1' : 'SHA-256' },
+      false,
+      ['verify']
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify RSA signature (base64-encoded) using WebCrypto
+ */
+export async function verifyRsaAsync(
+  publicKey: string | CryptoKey,
+  signature: string,
+  message: string | Uint8Array,
+  algorithm: 'RSA-SHA256' | 'RSA-SHA1' = 'RSA-SHA256'
+): Promise<boolean> {
+  const key =
+    typeof publicKey === 'string' ? await importRsaPublicKeyAsync(publicKey, algorithm) : publicKey;
+  const sig = base64ToBytes(signature);
+  if (!key || !sig) {
+    return false;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.verify('RSASSA-PKCS1-v1_5', key, sig, toBytes(message));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Import a PEM or base64 DER encoded P-256 public key for ECDSA verification
+ * Resolves to null if the key cannot be parsed.
+ */
+export async function importEcdsaPublicKeyAsync(publicKey: string): Promise<CryptoKey | null> {
+  const der = pemToDer(publicKey);
+  if (!der) {
+    return null;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.importKey(
+      'spki',
+      der,
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature to the raw r||s form WebCrypto expects
+ */
+function derToRawEcdsaSignature(der: Uint8Array, size: number): Uint8Array | null {
+  // SEQUENCE { INTEGER r, INTEGER s }
+  if (der[0] !== 0x30) {
+    return null;
+  }
+
+  let offset = der[1] & 0x80 ? 2 + (der[1] & 0x7f) : 2;
+  const raw = new Uint8Array(size * 2);
+
+  for (let i = 0; i < 2; i++) {
+    if (der[offset] !== 0x02) {
+      return null;
+    }
+    const length = der[offset + 1];
+    let value = der.subarray(offset + 2, offset + 2 + length);
+    offset += 2 + length;
+
+    // Strip the sign padding byte and left-pad to the curve size
+    while (value.length > size && value[0] === 0) {
+      value = value.subarray(1);
+    }
+    if (value.length > size) {
+      return null;
+    }
+    raw.set(value, size * (i + 1) - value.length);
+  }
+
+  return raw;
+}
+
+/**
+ * Verify an ECDSA P-256/SHA-256 signature (base64-encoded DER) using WebCrypto
+ */
+export async function verifyEcdsaAsync(
+  publicKey: string | CryptoKey,
+  signature: string,
+  message: string | Uint8Array
+): Promise<boolean> {
+  const key = typeof publicKey === 'string' ? await importEcdsaPublicKeyAsync(publicKey) : publicKey;
+  const der = base64ToBytes(signature);
+  const sig = der ? derToRawEcdsaSignature(der, 32) : null;
+  if (!key || !sig) {
+    return false;
+  }
+
+  const subtle = await getSubtle();
+  try {
+    return await subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, sig, toBytes(message));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * WebCrypto import and verify parameters for the asymmetric JWS algorithms
+ */
+const JWS_PARAMS: Record<Exclude<JwtAlgorithm, 'HS256' | 'HS384' | 'HS512'>, { key: ImportParams; verify: VerifyParams }> = {
+  RS256: { key: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verify: { name: 'RSASSA-PKCS1-v1_5' } },
+  PS256: { key: { name: 'RSA-PSS', hash: 'SHA-256' }, verify: { name: 'RSA-PSS', saltLength: 32 } },
+  ES256: { key: { name: 'ECDSA', namedCurve: 'P-256' }, verify: { name: 'ECDSA', hash: 'SHA-256' } },
+  EdDSA: { key: { name: 'Ed25519' }, verify: { name: 'Ed25519' } },
+};
+
+/**
+ * Import a public key in JWK format for a JWS algorithm ('RS1' is RSA-SHA1)
+ * Resolves to null if the key cannot be parsed or does not suit the algorithm.
+ */
+export async function importJwkAsync(
+  jwk: JsonWebKey,
+  algorithm: Exclude<JwtAlgorithm, 'HS256' | 'HS384' | 'HS512'> | 'RS1'
+): Promise<CryptoKey | null> {
+  const params = algorithm === 'RS1' ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-1' } : JWS_PARAMS[algorithm].key;
+  const subtle = await getSubtle();
+  try {
+    return await subtle.importKey('jwk', jwk as webcrypto.JsonWebKey, params, false, ['verify']);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verify a JWS signature over "<header>.<payload>" using WebCrypto
+ *
+ * HS* algorithms take the shared secret; the others a PEM public key or a JWK
+ * (EdDSA also accepts a hex Ed25519 key). Resolves to null if the key cannot be used.
+ */
+export async function verifyJwsAsync(
+  algorithm: JwtAlgorithm,
+  key: string | JsonWebKey,
+  signingInput: string,
+  signature: Uint8Array
+): Promise<boolean | null> {
+  if (algorithm === 'HS256' || algorithm === 'HS384' || algorithm === 'HS512') {
+    // A public key used as an HMAC secret means the algorithm was switched
+    if (typeof key !== 'string' || key.includes('-----BEGIN')) {
+      return null;
+    }
+    const hash = `sha${algorithm.slice(2)}` as HashAlgorithm;
+    const computed = await computeHmacAsync(hash, key, signingInput);
+    return constantTimeEqual(bytesToBase64(computed), bytesToBase64(signature));
+  }
+
+  const params = JWS_PARAMS[algorithm];
+  const subtle = await getSubtle();
+
+  let cryptoKey: CryptoKey | null;
+  if (typeof key !== 'string') {
+    cryptoKey = await importJwkAsync(key, algorithm);
+  } else if (algorithm === 'EdDSA' && !key.includes('-----BEGIN')) {
+    cryptoKey = await importEd25519PublicKeyAsync(key);
+  } else {
+    const der = pemToDer(key);
+    cryptoKey = der
+      ? await subtle.importKey('spki', der, params.key, false, ['verify']).catch(() => null)
+      : null;
+  }
+  if (!cryptoKey) {
+    return null;
+  }
+
+  try {
+    return await subtle.verify(params.verify, cryptoKey, signature, toBytes(signingInput));
+  } catch {
+    return false;
+  }
+}
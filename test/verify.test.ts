@@ -1,16 +1,75 @@
-import { describe, it } from 'node:test';
+import { before, describe, it } from 'node:test';
 import assert from 'node:assert';
-import { createHmac } from 'node:crypto';
+import { createHash, createHmac, createSign, generateKeyPairSync, sign as cryptoSign } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { createServer } from 'node:http';
+import { gzipSync } from 'node:zlib';
+import { createRequire } from 'node:module';
+import { mkdtempSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { AddressInfo } from 'node:net';
 import {
   verify,
+  verifyDetailed,
+  verifyAsync,
+  verifyDetailedAsync,
   getSupportedProviders,
   isProviderSupported,
   hmac,
+  ed25519,
+  rsa,
+  jwt,
+  createKeySet,
   timingSafeEqual,
   validateTimestamp,
   getSignature,
   getHeaderNames,
+  registerProvider,
+  defineHmacProvider,
+  sign,
+  createMemoryReplayStore,
+  configure,
+  detectProvider,
+  verifyAny,
+  verifyAndParse,
+  verifyAndParseAsync,
+  verifyRequest,
+  readAndVerify,
+  diagnose,
+  resolveRequestUrl,
+  urlVariants,
 } from '../src/index.js';
+import * as edge from '../src/edge.js';
+import type {
+  JsonWebKey,
+  JwtAlgorithm,
+  Provider,
+  ReadAndVerifyOptions,
+  ReadAndVerifyResult,
+  SignOptions,
+  VerifyOptions,
+} from '../src/index.js';
+import {
+  createSignedRequest,
+  createExpiredRequest,
+  createTamperedRequest,
+  testKeys,
+} from '../src/testing.js';
+import { webhookMiddleware } from '../src/express.js';
+import type { WebhookMiddlewareConfig } from '../src/express.js';
+import Fastify from 'fastify';
+import webhookVerify from '../src/fastify.js';
+import { main } from '../src/cli.js';
+import { build } from 'tsup';
+
+declare module '../src/index.js' {
+  interface CustomProviders {
+    acme: true;
+    globex: true;
+  }
+}
 
 describe('webhook-verify', () => {
   describe('verify function', () => {
@@ -146,6 +205,1863 @@ describe('webhook-verify', () => {
     });
   });
 
+  describe('verifyDetailed', () => {
+    const secret = 'test-secret';
+    const payload = '{"test":"data"}';
+
+    function generateStripeSignature(body: string, key: string, timestamp?: number): string {
+      const ts = timestamp ?? Math.floor(Date.now() / 1000);
+      const sig = createHmac('sha256', key).update(`${ts}.${body}`).digest('hex');
+      return `t=${ts},v1=${sig}`;
+    }
+
+    it('should return valid result with timestamp and secret index', () => {
+      const ts = Math.floor(Date.now() / 1000);
+      const result = verifyDetailed('stripe', payload, generateStripeSignature(payload, secret, ts), secret);
+      assert.deepStrictEqual(result, { valid: true, timestamp: ts, secretIndex: 0 });
+    });
+
+    it('should report which additional secret matched', () => {
+      const signature = generateStripeSignature(payload, 'older-secret');
+      const result = verifyDetailed('stripe', payload, signature, secret, {
+        additionalSecrets: ['old-secret', 'older-secret'],
+      });
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.secretIndex, 2);
+    });
+
+    it('should keep secret positions when the primary secret is empty', async () => {
+      const signature = generateStripeSignature(payload, 'old-secret');
+      const options = { additionalSecrets: ['old-secret'] };
+      assert.strictEqual(verifyDetailed('stripe', payload, signature, '', options).secretIndex, 1);
+      assert.strictEqual((await verifyDetailedAsync('stripe', payload, signature, '', options)).secretIndex, 1);
+      assert.strictEqual(verify('stripe', payload, signature, '', options), true);
+      assert.strictEqual(verifyDetailed('stripe', payload, signature, () => ['', 'old-secret']).secretIndex, 1);
+      assert.deepStrictEqual(verifyDetailed('stripe', payload, signature, ''), { valid: false, reason: 'invalid_key' });
+    });
+
+    it('should report missing_header instead of throwing', () => {
+      const result = verifyDetailed('stripe', payload, {}, secret);
+      assert.deepStrictEqual(result, { valid: false, reason: 'missing_header' });
+    });
+
+    it('should report malformed_signature', () => {
+      assert.strictEqual(verifyDetailed('stripe', payload, 'garbage', secret).reason, 'malformed_signature');
+      assert.strictEqual(verifyDetailed('zendesk', payload, 'sig,t=abc', secret).reason, 'malformed_signature');
+    });
+
+    it('should report timestamp_expired', () => {
+      const ts = Math.floor(Date.now() / 1000) - 600;
+      const result = verifyDetailed('stripe', payload, generateStripeSignature(payload, secret, ts), secret);
+      assert.deepStrictEqual(result, { valid: false, reason: 'timestamp_expired', timestamp: ts });
+    });
+
+    it('should report timestamp_in_future', () => {
+      const ts = Math.floor(Date.now() / 1000) + 600;
+      const result = verifyDetailed('stripe', payload, generateStripeSignature(payload, secret, ts), secret);
+      assert.strictEqual(result.reason, 'timestamp_in_future');
+    });
+
+    it('should report signature_mismatch', () => {
+      const result = verifyDetailed('github', payload, 'sha256=invalid', secret);
+      assert.deepStrictEqual(result, { valid: false, reason: 'signature_mismatch' });
+    });
+
+    it('should report missing_option', () => {
+      assert.strictEqual(verifyDetailed('twilio', payload, 'sig', secret).reason, 'missing_option');
+      assert.strictEqual(verifyDetailed('crystallize', payload, 'a.b.c', secret).reason, 'missing_option');
+    });
+
+    it('should report invalid_key', () => {
+      const ts = Math.floor(Date.now() / 1000);
+      const result = verifyDetailed('discord', payload, `abcd,t=${ts}`, 'not-a-key');
+      assert.deepStrictEqual(result, { valid: false, reason: 'invalid_key', timestamp: ts });
+    });
+
+    it('should report the primary secret failure when no secret matches', () => {
+      const result = verifyDetailed('github', payload, 'sha256=invalid', secret, {
+        additionalSecrets: ['old-secret'],
+      });
+      assert.deepStrictEqual(result, { valid: false, reason: 'signature_mismatch' });
+    });
+  });
+
+  describe('verifyAsync (WebCrypto)', () => {
+    const secret = 'test-secret';
+    const svixSecret = `whsec_${Buffer.from('test-secret-key-1234').toString('base64')}`;
+    const url = 'https://example.com/webhook';
+    const json = '{"type":"test.event","id":"evt_123"}';
+    const form = 'AccountSid=AC123&Body=Hello';
+    const ed = generateKeyPairSync('ed25519');
+    const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const pem = (key: typeof ed.publicKey) => key.export({ type: 'spki', format: 'pem' }).toString();
+
+    function hmacOf(algorithm: string, key: string | Buffer, data: string, encoding: 'hex' | 'base64') {
+      return createHmac(algorithm, key).update(data).digest(encoding);
+    }
+
+    function signedFixtures(now: number) {
+      const svixKey = Buffer.from(svixSecret.slice(6), 'base64');
+      const jwtHeader = Buffer.from('{"alg":"HS256","typ":"JWT"}').toString('base64url');
+      const jwtBody = Buffer.from(
+        JSON.stringify({
+          hmac: hmacOf('sha256', secret, JSON.stringify({ url, method: 'POST', body: json }), 'hex'),
+          exp: now + 60,
+        })
+      ).toString('base64url');
+      const jwtSig = createHmac('sha256', secret).update(`${jwtHeader}.${jwtBody}`).digest('base64url');
+      const svixSig = `v1,${hmacOf('sha256', svixKey, `msg_1.${now}.${json}`, 'base64')},t=${now},id=msg_1`;
+      const twilioBase = url + 'AccountSidAC123BodyHello';
+
+      return {
+        stripe: { payload: json, signature: `t=${now},v1=${hmacOf('sha256', secret, `${now}.${json}`, 'hex')}`, secret },
+        github: { payload: json, signature: `sha256=${hmacOf('sha256', secret, json, 'hex')}`, secret },
+        shopify: { payload: json, signature: hmacOf('sha256', secret, json, 'base64'), secret },
+        slack: { payload: form, signature: `v0=${hmacOf('sha256', secret, `v0:${now}:${form}`, 'hex')},t=${now}`, secret },
+        twilio: { payload: form, signature: hmacOf('sha1', secret, twilioBase, 'base64'), secret, options: { url } },
+        discord: {
+          payload: json,
+          signature: `${cryptoSign(null, Buffer.from(`${now}${json}`), ed.privateKey).toString('hex')},t=${now}`,
+          secret: ed.publicKey.export({ type: 'spki', format: 'der' }).toString('hex'),
+        },
+        linear: { payload: json, signature: hmacOf('sha256', secret, json, 'hex'), secret },
+        vercel: { payload: json, signature: hmacOf('sha1', secret, json, 'hex'), secret },
+        svix: { payload: json, signature: svixSig, secret: svixSecret },
+        clerk: { payload: json, signature: svixSig, secret: svixSecret },
+        sendgrid: {
+          payload: json,
+          signature: `${createSign('SHA256').update(`${now}${json}`).sign(ec.privateKey, 'base64')},t=${now}`,
+          secret: pem(ec.publicKey),
+        },
+        paddle: {
+          payload: json,
+          signature: `ts=${now};h1=${createSign('RSA-SHA256').update(`${now}:${json}`).sign(rsaKeys.privateKey, 'base64')}`,
+          secret: pem(rsaKeys.publicKey),
+        },
+        intercom: { payload: json, signature: `sha1=${hmacOf('sha1', secret, json, 'hex')}`, secret },
+        mailchimp: { payload: json, signature: hmacOf('sha256', secret, json, 'base64'), secret },
+        gitlab: { payload: json, signature: secret, secret },
+        typeform: { payload: json, signature: `sha256=${hmacOf('sha256', secret, json, 'base64')}`, secret },
+        crystallize: { payload: json, signature: `${jwtHeader}.${jwtBody}.${jwtSig}`, secret, options: { url } },
+        zendesk: { payload: json, signature: `${hmacOf('sha256', secret, now + json, 'base64')},t=${now}`, secret },
+        square: { payload: json, signature: hmacOf('sha256', secret, url + json, 'base64'), secret, options: { url } },
+        hubspot: {
+          payload: json,
+          signature: `${hmacOf('sha256', secret, `POST${url}${json}${now * 1000}`, 'base64')},t=${now * 1000}`,
+          secret,
+          options: { url },
+        },
+        segment: { payload: json, signature: hmacOf('sha1', secret, json, 'hex'), secret },
+        'standard-webhooks': { payload: json, signature: svixSig, secret: svixSecret },
+      } as Record<string, { payload: string; signature: string; secret: string; options?: VerifyOptions }>;
+    }
+
+    it('should cover every provider in the registry', () => {
+      const fixtures = signedFixtures(Math.floor(Date.now() / 1000));
+      const builtIn = getSupportedProviders().filter((provider) => provider !== 'acme' && provider !== 'globex');
+      assert.deepStrictEqual(Object.keys(fixtures).sort(), builtIn.sort());
+    });
+
+    it('should agree with the sync API for valid signatures', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      for (const [provider, f] of Object.entries(signedFixtures(now))) {
+        const p = provider as Parameters<typeof verify>[0];
+        assert.strictEqual(verify(p, f.payload, f.signature, f.secret, f.options), true, `${provider} (sync)`);
+        assert.strictEqual(await verifyAsync(p, f.payload, f.signature, f.secret, f.options), true, provider);
+      }
+    });
+
+    it('should agree with the sync API for tampered payloads', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      for (const [provider, f] of Object.entries(signedFixtures(now))) {
+        if (provider === 'gitlab') continue; // token comparison does not cover the body
+        const p = provider as Parameters<typeof verify>[0];
+        const tampered = f.payload.replace(/123|Hello/, 'XYZ');
+        const sync = verifyDetailed(p, tampered, f.signature, f.secret, f.options);
+        const result = await verifyDetailedAsync(p, tampered, f.signature, f.secret, f.options);
+        assert.strictEqual(result.valid, false, provider);
+        assert.deepStrictEqual(result, sync, provider);
+      }
+    });
+
+    it('should accept Uint8Array payloads', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const f = signedFixtures(now).stripe;
+      const bytes = new TextEncoder().encode(f.payload);
+      assert.strictEqual(await verifyAsync('stripe', bytes, f.signature, f.secret), true);
+    });
+
+    it('should report failure reasons like the sync API', async () => {
+      const ts = Math.floor(Date.now() / 1000) - 600;
+      const f = signedFixtures(ts).stripe;
+      const result = await verifyDetailedAsync('stripe', f.payload, f.signature, f.secret);
+      assert.deepStrictEqual(result, { valid: false, reason: 'timestamp_expired', timestamp: ts });
+      assert.deepStrictEqual(await verifyDetailedAsync('stripe', f.payload, {}, f.secret), {
+        valid: false,
+        reason: 'missing_header',
+      });
+    });
+
+    it('should try additional secrets', async () => {
+      const f = signedFixtures(Math.floor(Date.now() / 1000)).github;
+      const result = await verifyDetailedAsync('github', f.payload, f.signature, 'new-secret', {
+        additionalSecrets: [f.secret],
+      });
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.secretIndex, 1);
+    });
+
+    it('should reject when required headers are missing', async () => {
+      await assert.rejects(() => verifyAsync('stripe', json, {}, secret), /Missing required webhook signature header/);
+    });
+
+    it('should provide async generic handlers', async () => {
+      const sig = createHmac('sha256', secret).update(json).digest('hex');
+      assert.strictEqual(await hmac.verifyAsync(json, `sha256=${sig}`, secret, { prefix: 'sha256=' }), true);
+      assert.strictEqual(await hmac.signAsync(json, secret), hmac.sign(json, secret));
+
+      const ts = Math.floor(Date.now() / 1000);
+      const tsSig = createHmac('sha256', secret).update(`${ts}.${json}`).digest('hex');
+      assert.strictEqual(await hmac.verifyWithTimestampAsync(json, tsSig, secret, ts), true);
+
+      const edSig = cryptoSign(null, Buffer.from(json), ed.privateKey).toString('hex');
+      const edKey = ed.publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+      assert.strictEqual(await ed25519.verifyAsync(json, edSig, edKey), true);
+      assert.strictEqual(ed25519.verify(json, edSig, edKey), true);
+
+      const rsaSig = createSign('RSA-SHA256').update(json).sign(rsaKeys.privateKey, 'base64');
+      assert.strictEqual(await rsa.verifyAsync(json, rsaSig, pem(rsaKeys.publicKey)), true);
+      assert.strictEqual(await rsa.verifyAsync('other', rsaSig, pem(rsaKeys.publicKey)), false);
+    });
+  });
+
+  describe('edge entry point', () => {
+    /**
+     * Bare specifiers loaded by a module and the modules it imports, skipping
+     * type-only and dynamic imports
+     */
+    function staticImports(file: string, seen = new Set<string>()): Set<string> {
+      const external = new Set<string>();
+      if (seen.has(file)) {
+        return external;
+      }
+      seen.add(file);
+
+      const source = readFileSync(file, 'utf8');
+      const pattern = /^(?:import|export)\s+(?!type\b)(?:[^;]*?\bfrom\s+)?'([^']+)';/gm;
+      for (const [, specifier] of source.matchAll(pattern)) {
+        if (!specifier.startsWith('.')) {
+          external.add(specifier);
+          continue;
+        }
+        const imported = join(dirname(file), specifier.replace(/\.js$/, '.ts'));
+        for (const name of staticImports(imported, seen)) {
+          external.add(name);
+        }
+      }
+      return external;
+    }
+
+    it('should not import Node.js built-in modules', () => {
+      const src = join(dirname(fileURLToPath(import.meta.url)), '..', 'src');
+      assert.deepStrictEqual([...staticImports(join(src, 'edge.ts'))], []);
+
+      // The Node.js entry point is what passes in the crypto module
+      assert.deepStrictEqual([...staticImports(join(src, 'index.ts'))], ['crypto']);
+    });
+
+    it('should verify with the async API', async () => {
+      const body = '{"type":"test.event"}';
+      const headers = sign('stripe', body, 'secret');
+      assert.strictEqual(await edge.verifyAsync('stripe', body, headers, 'secret'), true);
+      assert.strictEqual((await edge.verifyDetailedAsync('stripe', body, headers, 'wrong')).reason, 'signature_mismatch');
+    });
+  });
+
+  describe('registerProvider', () => {
+    const secret = 'acme-secret';
+    const payload = '{"event":"ping"}';
+
+    registerProvider('acme', {
+      verify: (body, signature, key) => hmac.verify(body, signature, key, { prefix: 'v1=' }),
+      extractHeaders: (headers) => {
+        const signature = headers['x-acme-signature'];
+        return typeof signature === 'string' ? { signature, rawSignature: signature } : null;
+      },
+      headerNames: { signature: 'x-acme-signature' },
+    });
+
+    const signature = hmac.sign(payload, secret, { prefix: 'v1=' });
+
+    it('should verify a registered provider', () => {
+      assert.strictEqual(verify('acme', payload, signature, secret), true);
+      assert.strictEqual(verify('acme', payload, signature, 'wrong'), false);
+    });
+
+    it('should extract signatures from headers', () => {
+      const headers = { 'x-acme-signature': signature };
+      assert.strictEqual(getSignature('acme', headers)?.signature, signature);
+      assert.strictEqual(verify('acme', payload, headers, secret), true);
+      assert.deepStrictEqual(getHeaderNames('acme'), { signature: 'x-acme-signature' });
+    });
+
+    it('should derive detailed and async verification', async () => {
+      assert.deepStrictEqual(verifyDetailed('acme', payload, 'v1=bad', secret), {
+        valid: false,
+        reason: 'signature_mismatch',
+      });
+      assert.strictEqual(await verifyAsync('acme', new TextEncoder().encode(payload), signature, secret), true);
+    });
+
+    it('should be listed as supported', () => {
+      assert.ok(getSupportedProviders().includes('acme'));
+      assert.strictEqual(isProviderSupported('acme'), true);
+    });
+
+    it('should refuse to override built-in providers', () => {
+      assert.throws(
+        () =>
+          registerProvider('stripe', {
+            verify: () => true,
+            extractHeaders: () => null,
+            headerNames: {},
+          }),
+        /Cannot override built-in webhook provider: stripe/
+      );
+    });
+  });
+
+  describe('defineHmacProvider', () => {
+    const secret = 'globex-secret';
+    const payload = '{"event":"order.created"}';
+    const now = Math.floor(Date.now() / 1000);
+
+    const globex = defineHmacProvider({
+      signatureHeader: 'X-Globex-Signature',
+      timestampHeader: 'X-Globex-Timestamp',
+      eventHeader: 'X-Globex-Event',
+      algorithm: 'sha512',
+      encoding: 'base64',
+      prefix: 'v1=',
+      signedPayload: ({ timestamp, payload }) => `${timestamp}.${payload}`,
+      tolerance: 60,
+    });
+
+    const sign = (ts: number) =>
+      'v1=' + createHmac('sha512', secret).update(`${ts}.${payload}`).digest('base64');
+
+    it('should verify signatures over the configured signed payload', async () => {
+      const signature = `${sign(now)},t=${now}`;
+      assert.strictEqual(globex.verify(payload, signature, secret), true);
+      assert.strictEqual(globex.verify(payload, signature, 'wrong'), false);
+      assert.deepStrictEqual(globex.verifyDetailed(payload, signature, secret), { valid: true, timestamp: now });
+      assert.strictEqual((await globex.verifyDetailedAsync(payload, signature, secret)).valid, true);
+    });
+
+    it('should enforce the configured tolerance', () => {
+      const old = now - 120;
+      assert.deepStrictEqual(globex.verifyDetailed(payload, `${sign(old)},t=${old}`, secret), {
+        valid: false,
+        reason: 'timestamp_expired',
+        timestamp: old,
+      });
+      assert.strictEqual(globex.verify(payload, `${sign(old)},t=${old}`, secret, { tolerance: 300 }), true);
+    });
+
+    it('should report malformed signatures and missing options', () => {
+      assert.strictEqual(globex.verifyDetailed(payload, sign(now), secret).reason, 'malformed_signature');
+
+      const routed = defineHmacProvider({
+        signatureHeader: 'x-routed-signature',
+        requiredOptions: ['url'],
+        signedPayload: ({ payload, options }) => (options as { url: string }).url + payload,
+      });
+      assert.strictEqual(routed.verifyDetailed(payload, 'abc', secret).reason, 'missing_option');
+    });
+
+    it('should extract headers and derive header names', () => {
+      assert.deepStrictEqual(
+        globex.extractHeaders({ 'x-globex-signature': 'v1=abc', 'x-globex-timestamp': '123', 'x-globex-event': 'ping' }),
+        { signature: 'v1=abc,t=123', rawSignature: 'v1=abc', timestamp: '123', eventType: 'ping' }
+      );
+      assert.strictEqual(globex.extractHeaders({ 'x-globex-signature': 'v1=abc' }), null);
+      assert.deepStrictEqual(globex.headerNames, {
+        signature: 'x-globex-signature',
+        timestamp: 'x-globex-timestamp',
+        event: 'x-globex-event',
+      });
+    });
+
+    it('should be registrable as a custom provider', () => {
+      registerProvider('globex', globex);
+      const headers = { 'x-globex-signature': sign(now), 'x-globex-timestamp': String(now) };
+      assert.strictEqual(verify('globex', payload, headers, secret), true);
+    });
+  });
+
+  describe('sign', () => {
+    const secret = 'test-secret';
+    const svixSecret = `whsec_${Buffer.from('test-secret-key-1234').toString('base64')}`;
+    const url = 'https://example.com/webhook';
+    const json = '{"type":"test.event","id":"evt_123"}';
+    const form = 'AccountSid=AC123&Body=Hello';
+    const ed = generateKeyPairSync('ed25519');
+    const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const pem = (key: typeof ed.publicKey) => key.export({ type: 'spki', format: 'pem' }).toString();
+    const privatePem = (key: typeof ed.privateKey) => key.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+    // [payload, signing key, verification key, options]
+    const cases: Record<string, [string, string, string, (SignOptions & VerifyOptions)?]> = {
+      stripe: [json, secret, secret],
+      github: [json, secret, secret],
+      shopify: [json, secret, secret],
+      slack: [form, secret, secret],
+      twilio: [form, secret, secret, { url }],
+      discord: [json, privatePem(ed.privateKey), ed.publicKey.export({ type: 'spki', format: 'der' }).toString('hex')],
+      linear: [json, secret, secret],
+      vercel: [json, secret, secret],
+      svix: [json, svixSecret, svixSecret],
+      clerk: [json, svixSecret, svixSecret],
+      sendgrid: [json, privatePem(ec.privateKey), pem(ec.publicKey)],
+      paddle: [json, privatePem(rsaKeys.privateKey), pem(rsaKeys.publicKey)],
+      intercom: [json, secret, secret],
+      mailchimp: [json, secret, secret],
+      gitlab: [json, secret, secret],
+      typeform: [json, secret, secret],
+      crystallize: [json, secret, secret, { url }],
+      zendesk: [json, secret, secret],
+      square: [json, secret, secret, { url }],
+      hubspot: [json, secret, secret, { url }],
+      segment: [json, secret, secret],
+      'standard-webhooks': [json, svixSecret, svixSecret],
+    };
+
+    for (const provider of Object.keys(cases) as Provider[]) {
+      const [payload, signingKey, verifyKey, options] = cases[provider];
+      it(`should round-trip ${provider} through verify()`, async () => {
+        const headers = sign(provider, payload, signingKey, options);
+        assert.strictEqual(verify(provider, payload, headers, verifyKey, options), true);
+        assert.strictEqual(await verifyAsync(provider, payload, headers, verifyKey, options), true);
+        assert.strictEqual(verify(provider, payload + ' ', headers, verifyKey, options), provider === 'gitlab');
+      });
+    }
+
+    it('should cover every built-in provider', () => {
+      const builtIn = getSupportedProviders().filter((provider) => provider !== 'acme' && provider !== 'globex');
+      assert.deepStrictEqual(Object.keys(cases).sort(), builtIn.sort());
+    });
+
+    it('should produce the headers each provider sends', () => {
+      const timestamp = 1700000000;
+      const expected = createHmac('sha256', secret).update(`${timestamp}.${json}`).digest('hex');
+      assert.deepStrictEqual(sign('stripe', json, secret, { timestamp }), {
+        'stripe-signature': `t=${timestamp},v1=${expected}`,
+      });
+      assert.deepStrictEqual(Object.keys(sign('svix', json, svixSecret, { id: 'msg_1' })).sort(), [
+        'svix-id',
+        'svix-signature',
+        'svix-timestamp',
+      ]);
+      assert.strictEqual(sign('svix', json, svixSecret, { id: 'msg_1' })['svix-id'], 'msg_1');
+      assert.strictEqual(sign('hubspot', json, secret, { url, timestamp })['x-hubspot-request-timestamp'], `${timestamp}000`);
+      assert.match(sign('paddle', json, privatePem(rsaKeys.privateKey), { timestamp })['paddle-signature'], /^ts=1700000000;h1=/);
+    });
+
+    it('should sign Discord payloads with a raw hex Ed25519 seed', () => {
+      const seed = ed.privateKey.export({ type: 'pkcs8', format: 'der' }).subarray(-32).toString('hex');
+      const headers = sign('discord', json, seed);
+      const publicKey = ed.publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+      assert.strictEqual(verify('discord', json, headers, publicKey), true);
+    });
+
+    it('should sign with a past timestamp so expiry can be tested', () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 600;
+      const headers = sign('slack', form, secret, { timestamp });
+      assert.deepStrictEqual(verifyDetailed('slack', form, headers, secret), {
+        valid: false,
+        reason: 'timestamp_expired',
+        timestamp,
+      });
+    });
+
+    it('should throw when a required option is missing', () => {
+      assert.throws(() => sign('twilio', form, secret), /Twilio signing requires url option/);
+      assert.throws(() => sign('square', json, secret), /Signing requires url option/);
+    });
+
+    it('should throw for custom providers without a signer', () => {
+      assert.throws(() => sign('acme', json, secret), /Signing is not supported for webhook provider: acme/);
+      assert.throws(() => sign('unknown' as any, json, secret), /Unknown webhook provider/);
+    });
+  });
+
+  describe('testing helpers', () => {
+    const secret = 'test-secret';
+    const svixSecret = `whsec_${Buffer.from('test-secret-key-1234').toString('base64')}`;
+    const url = 'https://example.com/webhook';
+    const event = { type: 'test.event', id: 'evt_123' };
+
+    // [signing key, verification key, options]
+    const keys: Record<string, [string, string, any?]> = {
+      discord: [testKeys.discord.privateKey, testKeys.discord.publicKey],
+      sendgrid: [testKeys.sendgrid.privateKey, testKeys.sendgrid.publicKey],
+      paddle: [testKeys.paddle.privateKey, testKeys.paddle.publicKey],
+      svix: [svixSecret, svixSecret],
+      clerk: [svixSecret, svixSecret],
+      'standard-webhooks': [testKeys['standard-webhooks'].privateKey, testKeys['standard-webhooks'].publicKey],
+      twilio: [secret, secret, { url }],
+      crystallize: [secret, secret, { url }],
+      square: [secret, secret, { url }],
+      hubspot: [secret, secret, { url }],
+    };
+    const timestamped = ['stripe', 'slack', 'svix', 'clerk', 'sendgrid', 'paddle', 'zendesk', 'hubspot', 'standard-webhooks'];
+    const builtIn = getSupportedProviders().filter((provider) => provider !== 'acme' && provider !== 'globex');
+
+    for (const provider of builtIn) {
+      const [signingKey, verifyKey, options] = keys[provider] ?? [secret, secret];
+      const body = provider === 'twilio' ? 'AccountSid=AC123&Body=Hello' : event;
+
+      it(`should build valid and failing ${provider} requests`, () => {
+        const valid = createSignedRequest(provider, body, signingKey, options);
+        assert.strictEqual(verify(provider, valid.body, valid.headers, verifyKey, options), true);
+
+        const forged = createTamperedRequest(provider, body, signingKey, { ...options, tamper: 'signature' });
+        assert.strictEqual(verifyDetailed(provider, forged.body, forged.headers, verifyKey, options).reason, 'signature_mismatch');
+
+        if (timestamped.includes(provider)) {
+          const expired = createExpiredRequest(provider, body, signingKey, options);
+          assert.strictEqual(verifyDetailed(provider, expired.body, expired.headers, verifyKey, options).reason, 'timestamp_expired');
+        }
+      });
+    }
+
+    it('should serialize object bodies as JSON', () => {
+      const { body } = createSignedRequest('github', event, secret);
+      assert.strictEqual(body, JSON.stringify(event));
+    });
+
+    it('should tamper with the body after signing', () => {
+      const tampered = createTamperedRequest('stripe', Buffer.from('{"a":1}'), secret);
+      assert.ok(Buffer.isBuffer(tampered.body));
+      assert.deepStrictEqual(verifyDetailed('stripe', tampered.body, tampered.headers, secret).reason, 'signature_mismatch');
+    });
+
+    it('should use fixed key pairs', () => {
+      const first = createSignedRequest('discord', event, testKeys.discord.privateKey, { timestamp: 1700000000 });
+      const second = createSignedRequest('discord', event, testKeys.discord.privateKey, { timestamp: 1700000000 });
+      assert.deepStrictEqual(first.headers, second.headers);
+      assert.strictEqual(testKeys.discord.publicKey.length, 64);
+    });
+  });
+
+  describe('standard-webhooks', () => {
+    const secret = `whsec_${Buffer.from('standard-secret-key').toString('base64')}`;
+    const { publicKey, privateKey } = testKeys['standard-webhooks'];
+    const payload = '{"type":"prediction.completed"}';
+    const now = Math.floor(Date.now() / 1000);
+    const content = `msg_1.${now}.${payload}`;
+    const v1 = `v1,${createHmac('sha256', Buffer.from('standard-secret-key')).update(content).digest('base64')}`;
+
+    it('should verify symmetric v1 signatures from headers', () => {
+      const headers = { 'webhook-id': 'msg_1', 'webhook-timestamp': String(now), 'webhook-signature': v1 };
+      assert.strictEqual(verify('standard-webhooks', payload, headers, secret), true);
+      assert.strictEqual(getSignature('standard-webhooks', headers)?.messageId, 'msg_1');
+      assert.deepStrictEqual(getHeaderNames('standard-webhooks'), {
+        signature: 'webhook-signature',
+        timestamp: 'webhook-timestamp',
+        id: 'webhook-id',
+      });
+    });
+
+    it('should accept any signature in a space-delimited list', () => {
+      const signature = `v1,bm90LXRoZS1zaWduYXR1cmU= ${v1},t=${now},id=msg_1`;
+      assert.strictEqual(verify('standard-webhooks', payload, signature, secret), true);
+    });
+
+    it('should verify asymmetric v1a signatures with a whpk_ public key', async () => {
+      const headers = sign('standard-webhooks', payload, privateKey, { id: 'msg_1', timestamp: now });
+      assert.match(headers['webhook-signature'], /^v1a,/);
+      assert.strictEqual(verify('standard-webhooks', payload, headers, publicKey), true);
+      assert.strictEqual(await verifyAsync('standard-webhooks', payload, headers, publicKey), true);
+
+      // Combined with a symmetric signature, each key picks its own scheme
+      const both = { ...headers, 'webhook-signature': `${v1} ${headers['webhook-signature']}` };
+      assert.strictEqual(verify('standard-webhooks', payload, both, publicKey), true);
+      assert.strictEqual(verify('standard-webhooks', payload, both, secret), true);
+    });
+
+    it('should not accept a symmetric signature for a public key', () => {
+      const signature = `${v1},t=${now},id=msg_1`;
+      assert.deepStrictEqual(verifyDetailed('standard-webhooks', payload, signature, publicKey), {
+        valid: false,
+        reason: 'signature_mismatch',
+        timestamp: now,
+      });
+    });
+
+    it('should reject signing keys and malformed keys', () => {
+      const signature = `${v1},t=${now},id=msg_1`;
+      assert.strictEqual(verifyDetailed('standard-webhooks', payload, signature, privateKey).reason, 'invalid_key');
+      assert.strictEqual(verifyDetailed('standard-webhooks', payload, signature, 'whpk_AAAA').reason, 'invalid_key');
+    });
+
+    it('should report malformed signatures', () => {
+      assert.strictEqual(verifyDetailed('standard-webhooks', payload, v1, secret).reason, 'malformed_signature');
+      assert.strictEqual(
+        verifyDetailed('standard-webhooks', payload, `garbage,t=${now},id=msg_1`, secret).reason,
+        'malformed_signature'
+      );
+    });
+  });
+
+  describe('replay protection', () => {
+    const secret = 'test-secret';
+    const payload = '{"type":"test.event"}';
+
+    it('should reject a second delivery of the same Stripe signature', () => {
+      const replayStore = createMemoryReplayStore();
+      const { 'stripe-signature': signature } = sign('stripe', payload, secret);
+      assert.strictEqual(verify('stripe', payload, signature, secret, { replayStore }), true);
+      assert.strictEqual(verify('stripe', payload, signature, secret, { replayStore }), false);
+      assert.strictEqual(verifyDetailed('stripe', payload, signature, secret, { replayStore }).reason, 'replay_detected');
+    });
+
+    it('should not trust unsigned delivery ID headers', () => {
+      const replayStore = createMemoryReplayStore();
+      const headers = { ...sign('github', payload, secret), 'x-github-delivery': 'delivery-1' };
+      assert.strictEqual(getSignature('github', headers)?.deliveryId, 'delivery-1');
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore }), true);
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore }), false);
+
+      // X-GitHub-Delivery is not signed, so a new one does not make a distinct delivery
+      const redelivered = { ...headers, 'x-github-delivery': 'delivery-2' };
+      assert.strictEqual(verifyDetailed('github', payload, redelivered, secret, { replayStore }).reason, 'replay_detected');
+
+      const shopifyHeaders = { ...sign('shopify', payload, secret), 'x-shopify-webhook-id': 'wh-1' };
+      assert.strictEqual(getSignature('shopify', shopifyHeaders)?.deliveryId, 'wh-1');
+      assert.strictEqual(verify('shopify', payload, shopifyHeaders, secret, { replayStore }), true);
+      const resent = { ...shopifyHeaders, 'x-shopify-webhook-id': 'wh-2' };
+      assert.strictEqual(verify('shopify', payload, resent, secret, { replayStore }), false);
+    });
+
+    it('should identify Svix deliveries by their signed message ID', () => {
+      const replayStore = createMemoryReplayStore();
+      const svixSecret = `whsec_${Buffer.from('test-secret-key-1234').toString('base64')}`;
+      const now = Math.floor(Date.now() / 1000);
+      const svixHeaders = sign('svix', payload, svixSecret, { id: 'msg_1', timestamp: now });
+      assert.strictEqual(getSignature('svix', svixHeaders)?.deliveryId, 'msg_1');
+      assert.strictEqual(verify('svix', payload, svixHeaders, svixSecret, { replayStore }), true);
+
+      // Svix retries a message with the same ID and a new signature
+      const retried = sign('svix', payload, svixSecret, { id: 'msg_1', timestamp: now + 1 });
+      assert.strictEqual(verify('svix', payload, retried, svixSecret, { replayStore }), false);
+      const next = sign('svix', payload, svixSecret, { id: 'msg_2', timestamp: now });
+      assert.strictEqual(verify('svix', payload, next, svixSecret, { replayStore }), true);
+    });
+
+    it('should reject replays with a re-encoded signature header', async () => {
+      const replayStore = createMemoryReplayStore();
+      const { 'stripe-signature': signature } = sign('stripe', payload, secret);
+      assert.strictEqual(verify('stripe', payload, signature, secret, { replayStore }), true);
+
+      const [timestamp, v1] = signature.split(',');
+      for (const mutated of [
+        `${timestamp},${v1.toUpperCase().replace('V1=', 'v1=')}`,
+        `${signature},v0=abc`,
+        `${timestamp},v1=${'0'.repeat(64)},${v1}`,
+      ]) {
+        assert.strictEqual(verifyDetailed('stripe', payload, mutated, secret, { replayStore }).reason, 'replay_detected', mutated);
+      }
+
+      const slackHeaders = sign('slack', payload, secret);
+      assert.strictEqual(verify('slack', payload, slackHeaders, secret, { replayStore }), true);
+      const uppercased = {
+        ...slackHeaders,
+        'x-slack-signature': `v0=${slackHeaders['x-slack-signature'].slice(3).toUpperCase()}`,
+      };
+      assert.strictEqual(verifyDetailed('slack', payload, uppercased, secret, { replayStore }).reason, 'replay_detected');
+      assert.strictEqual((await verifyDetailedAsync('slack', payload, uppercased, secret, { replayStore })).reason, 'replay_detected');
+
+      const githubHeaders = sign('github', payload, secret);
+      assert.strictEqual(verify('github', payload, githubHeaders, secret, { replayStore }), true);
+      const unprefixed = { 'x-hub-signature-256': githubHeaders['x-hub-signature-256'].slice('sha256='.length) };
+      assert.strictEqual(verify('github', payload, unprefixed, secret, { replayStore }), false);
+    });
+
+    it('should not record deliveries that fail verification', () => {
+      const replayStore = createMemoryReplayStore();
+      const headers = sign('stripe', payload, secret);
+      assert.strictEqual(verifyDetailed('stripe', payload, headers, 'wrong', { replayStore }).reason, 'signature_mismatch');
+      assert.strictEqual(verify('stripe', payload, headers, secret, { replayStore }), true);
+    });
+
+    it('should support async stores with verifyDetailedAsync()', async () => {
+      const seen = new Set<string>();
+      const replayStore = {
+        has: async (key: string) => seen.has(key),
+        add: async (key: string) => {
+          seen.add(key);
+        },
+      };
+      const headers = sign('stripe', payload, secret);
+      assert.strictEqual((await verifyDetailedAsync('stripe', payload, headers, secret, { replayStore })).valid, true);
+      assert.strictEqual(
+        (await verifyDetailedAsync('stripe', payload, headers, secret, { replayStore })).reason,
+        'replay_detected'
+      );
+      assert.throws(() => verify('stripe', payload, headers, secret, { replayStore }), /Async replay stores require verifyAsync/);
+    });
+
+    it('should expire and evict entries in the memory store', () => {
+      const store = createMemoryReplayStore({ maxSize: 2 });
+      store.add('a', 60);
+      store.add('b', 60);
+      store.has('a');
+      store.add('c', 60);
+      assert.strictEqual(store.has('b'), false);
+      assert.strictEqual(store.has('a'), true);
+      assert.strictEqual(store.has('c'), true);
+
+      store.add('d', 0);
+      assert.strictEqual(store.has('d'), false);
+    });
+
+    it('should expire entries by the clock of the store', () => {
+      let now = 1700000000000;
+      const store = createMemoryReplayStore({ clock: () => now });
+      store.add('a', 60);
+      now += 59_000;
+      assert.strictEqual(store.has('a'), true);
+      now += 1_000;
+      assert.strictEqual(store.has('a'), false);
+    });
+
+    it('should remember deliveries without a signed timestamp beyond the tolerance', () => {
+      let now = Date.now();
+      const clock = () => now;
+      const replayStore = createMemoryReplayStore({ clock });
+      const headers = { ...sign('github', payload, secret), 'x-github-delivery': 'delivery-1' };
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore }), true);
+
+      now += 3600_000;
+      assert.strictEqual(verifyDetailed('github', payload, headers, secret, { replayStore }).reason, 'replay_detected');
+
+      // Until replayTtl (default: 7 days) has passed
+      now += 7 * 86400_000;
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore, replayTtl: 3600 }), true);
+      now += 1800_000;
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore }), false);
+      now += 1800_000;
+      assert.strictEqual(verify('github', payload, headers, secret, { replayStore }), true);
+    });
+
+    it('should remember deliveries with a checked timestamp for the tolerance', () => {
+      const added: number[] = [];
+      const replayStore = { has: () => false, add: (_key: string, ttl: number) => void added.push(ttl) };
+      verify('stripe', payload, sign('stripe', payload, secret), secret, { replayStore, tolerance: 60 });
+      verify('shopify', payload, sign('shopify', payload, secret), secret, { replayStore });
+
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const publicKeyHex = publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+      const discordHeaders = sign('discord', payload, privateKey.export({ type: 'pkcs8', format: 'pem' }).toString());
+      verify('discord', payload, discordHeaders, publicKeyHex, { replayStore });
+      verify('discord', payload, discordHeaders, publicKeyHex, { replayStore, policy: { requireTimestamp: true } });
+
+      assert.deepStrictEqual(added, [120, 604800, 604800, 600]);
+    });
+  });
+
+  describe('security policy', () => {
+    const secret = 'test-secret';
+    const payload = '{"type":"test.event"}';
+    const strict = { policy: { strict: true } };
+
+    it('should require the timestamp of Slack and SendGrid signatures', () => {
+      const slackSig = createHmac('sha256', secret).update(`v0:${Math.floor(Date.now() / 1000)}:${payload}`).digest('hex');
+      assert.strictEqual(verify('slack', payload, `v0=${slackSig}`, secret), true);
+      assert.deepStrictEqual(verifyDetailed('slack', payload, `v0=${slackSig}`, secret, strict), {
+        valid: false,
+        reason: 'policy_violation',
+        policyViolation: 'missing_timestamp',
+      });
+      assert.strictEqual(verify('slack', payload, sign('slack', payload, secret), secret, strict), true);
+
+      // Checked before the signature and key
+      assert.strictEqual(verifyDetailed('sendgrid', payload, 'c2ln', 'public-key', strict).policyViolation, 'missing_timestamp');
+    });
+
+    it('should check the Discord timestamp', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const publicKeyHex = publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+      const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+      const headers = sign('discord', payload, privateKeyPem, { timestamp: Math.floor(Date.now() / 1000) - 3600 });
+
+      assert.strictEqual(verify('discord', payload, headers, publicKeyHex), true);
+      assert.strictEqual(verifyDetailed('discord', payload, headers, publicKeyHex, strict).reason, 'timestamp_expired');
+      assert.strictEqual(
+        verify('discord', payload, sign('discord', payload, privateKeyPem), publicKeyHex, strict),
+        true
+      );
+
+      // A signature without its timestamp is malformed, and a policy violation under the policy
+      assert.strictEqual(verifyDetailed('discord', payload, 'abcd', publicKeyHex).reason, 'malformed_signature');
+      assert.deepStrictEqual(verifyDetailed('discord', payload, 'abcd', publicKeyHex, strict), {
+        valid: false,
+        reason: 'policy_violation',
+        policyViolation: 'missing_timestamp',
+      });
+    });
+
+    it('should cap the tolerance', async () => {
+      const headers = sign('stripe', payload, secret, { timestamp: Math.floor(Date.now() / 1000) - 600 });
+      assert.strictEqual(verify('stripe', payload, headers, secret, { tolerance: 900 }), true);
+      assert.strictEqual(
+        verifyDetailed('stripe', payload, headers, secret, { tolerance: 900, policy: { maxTolerance: 300 } }).reason,
+        'timestamp_expired'
+      );
+      assert.strictEqual(
+        (await verifyDetailedAsync('stripe', payload, headers, secret, { tolerance: 900, ...strict })).reason,
+        'timestamp_expired'
+      );
+    });
+
+    it('should reject SHA-1 signatures below the minimum hash strength', async () => {
+      for (const provider of ['intercom', 'vercel', 'segment'] as Provider[]) {
+        const headers = sign(provider, payload, secret);
+        assert.strictEqual(verify(provider, payload, headers, secret), true, provider);
+        assert.strictEqual(verifyDetailed(provider, payload, headers, secret, strict).policyViolation, 'weak_hash', provider);
+        assert.strictEqual(
+          (await verifyDetailedAsync(provider, payload, headers, secret, strict)).policyViolation,
+          'weak_hash',
+          provider
+        );
+      }
+
+      const url = 'https://example.com/sms';
+      const twilioHeaders = sign('twilio', 'Body=hi', secret, { url });
+      const twilioResult = verifyDetailed('twilio', 'Body=hi', twilioHeaders, secret, { url, ...strict });
+      assert.strictEqual(twilioResult.policyViolation, 'weak_hash');
+      assert.strictEqual(
+        verify('twilio', 'Body=hi', twilioHeaders, secret, { url, policy: { strict: true, minHashStrength: 'sha1' } }),
+        true
+      );
+    });
+
+    it('should reject legacy HubSpot signatures', () => {
+      const url = 'https://example.com/webhook/hubspot';
+      const legacy = createHash('sha256').update(secret + payload).digest('hex');
+      assert.strictEqual(verify('hubspot', payload, `${legacy},v=v1`, secret, { url }), true);
+      assert.strictEqual(
+        verifyDetailed('hubspot', payload, `${legacy},v=v1`, secret, { url, policy: { rejectLegacySchemes: true } })
+          .policyViolation,
+        'legacy_scheme'
+      );
+      assert.strictEqual(verify('hubspot', payload, sign('hubspot', payload, secret, { url }), secret, { url, ...strict }), true);
+    });
+
+    it('should apply the policy set with configure()', () => {
+      const slackSig = createHmac('sha256', secret).update(`v0:${Math.floor(Date.now() / 1000)}:${payload}`).digest('hex');
+      configure({ strict: true });
+      try {
+        assert.strictEqual(verifyDetailed('slack', payload, `v0=${slackSig}`, secret).policyViolation, 'missing_timestamp');
+        assert.strictEqual(verifyDetailed('vercel', payload, sign('vercel', payload, secret), secret).policyViolation, 'weak_hash');
+
+        // The policy option takes precedence
+        const vercelHeaders = sign('vercel', payload, secret);
+        assert.strictEqual(verify('vercel', payload, vercelHeaders, secret, { policy: { minHashStrength: 'sha1' } }), true);
+        assert.strictEqual(verify('slack', payload, `v0=${slackSig}`, secret, { policy: { strict: false } }), true);
+      } finally {
+        configure({});
+      }
+      assert.strictEqual(verify('slack', payload, `v0=${slackSig}`, secret), true);
+    });
+
+    it('should explain policy violations in diagnose()', () => {
+      const diagnosis = diagnose('vercel', payload, sign('vercel', payload, secret), secret, strict);
+      assert.strictEqual(diagnosis.result.reason, 'policy_violation');
+      assert.match(diagnosis.hints[0], /security policy \(weak_hash\)/);
+    });
+  });
+
+  describe('clock and timestamp windows', () => {
+    const secret = 'test-secret';
+    const payload = '{"type":"test.event"}';
+    const receivedAt = 1700000000;
+    const clock = () => receivedAt * 1000 + 500;
+
+    it('should verify stored webhooks as of their receipt time', async () => {
+      for (const provider of ['stripe', 'slack', 'zendesk', 'standard-webhooks'] as Provider[]) {
+        const key = provider === 'standard-webhooks' ? `whsec_${Buffer.from(secret).toString('base64')}` : secret;
+        const headers = sign(provider, payload, key, { timestamp: receivedAt - 10 });
+        assert.strictEqual(verifyDetailed(provider, payload, headers, key).reason, 'timestamp_expired', provider);
+        assert.deepStrictEqual(verifyDetailed(provider, payload, headers, key, { clock }), { valid: true, secretIndex: 0, timestamp: receivedAt - 10 }, provider);
+        assert.strictEqual((await verifyDetailedAsync(provider, payload, headers, key, { clock })).valid, true, provider);
+      }
+
+      const url = 'https://example.com/webhook/hubspot';
+      const hubspotHeaders = sign('hubspot', payload, secret, { url, timestamp: receivedAt });
+      assert.strictEqual(verify('hubspot', payload, hubspotHeaders, secret, { url }), false);
+      assert.strictEqual(verify('hubspot', payload, hubspotHeaders, secret, { url, clock }), true);
+    });
+
+    it('should check maxAge and maxFutureSkew separately', () => {
+      const late = sign('stripe', payload, secret, { timestamp: receivedAt - 3000 });
+      const early = sign('stripe', payload, secret, { timestamp: receivedAt + 60 });
+      const window = { clock, maxAge: 3600, maxFutureSkew: 30 };
+
+      assert.strictEqual(verify('stripe', payload, late, secret, { clock }), false);
+      assert.strictEqual(verify('stripe', payload, late, secret, window), true);
+      assert.strictEqual(verify('stripe', payload, early, secret, { clock }), true);
+      assert.strictEqual(verifyDetailed('stripe', payload, early, secret, window).reason, 'timestamp_in_future');
+
+      // Each side defaults to the tolerance
+      assert.strictEqual(verify('stripe', payload, late, secret, { clock, tolerance: 3600, maxFutureSkew: 30 }), true);
+      assert.strictEqual(verify('stripe', payload, early, secret, { clock, tolerance: 3600, maxFutureSkew: 30 }), false);
+
+      // The policy caps both sides
+      assert.strictEqual(verify('stripe', payload, late, secret, { ...window, policy: { maxTolerance: 300 } }), false);
+    });
+
+    it('should use the clock for the Discord timestamp and Crystallize token', () => {
+      const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+      const publicKeyHex = publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+      const privateKeyPem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+      const discordHeaders = sign('discord', payload, privateKeyPem, { timestamp: receivedAt });
+      const policy = { requireTimestamp: true };
+      assert.strictEqual(verify('discord', payload, discordHeaders, publicKeyHex, { policy }), false);
+      assert.strictEqual(verify('discord', payload, discordHeaders, publicKeyHex, { policy, clock }), true);
+
+      const url = 'https://example.com/webhooks/crystallize';
+      const crystallizeHeaders = sign('crystallize', payload, secret, { url, timestamp: receivedAt - 60 });
+      assert.strictEqual(verifyDetailed('crystallize', payload, crystallizeHeaders, secret, { url }).reason, 'timestamp_expired');
+      assert.strictEqual(verify('crystallize', payload, crystallizeHeaders, secret, { url, clock }), true);
+      assert.strictEqual(
+        verifyDetailed('crystallize', payload, crystallizeHeaders, secret, { url, clock, maxAge: 30 }).reason,
+        'timestamp_expired'
+      );
+    });
+
+    it('should use the clock in the generic handlers', () => {
+      assert.strictEqual(validateTimestamp(receivedAt - 600), false);
+      assert.strictEqual(validateTimestamp(receivedAt - 600, { clock }), false);
+      assert.strictEqual(validateTimestamp(receivedAt - 600, { clock, maxAge: 900 }), true);
+      assert.strictEqual(validateTimestamp(receivedAt + 60, { clock, maxAge: 900, maxFutureSkew: 30 }), false);
+
+      const sig = createHmac('sha256', secret).update(`${receivedAt}.${payload}`).digest('hex');
+      assert.strictEqual(hmac.verifyWithTimestamp(payload, sig, secret, receivedAt), false);
+      assert.strictEqual(hmac.verifyWithTimestamp(payload, sig, secret, receivedAt, { clock }), true);
+
+      const token = jwt.sign({ iat: receivedAt, exp: receivedAt + 60 }, secret);
+      assert.strictEqual(jwt.verify(token, secret, { algorithms: ['HS256'] }).reason, 'timestamp_expired');
+      assert.strictEqual(jwt.verify(token, secret, { algorithms: ['HS256'], clock }).valid, true);
+    });
+
+    it('should report the age as of the clock in diagnose()', () => {
+      const headers = sign('stripe', payload, secret, { timestamp: receivedAt - 600 });
+      const diagnosis = diagnose('stripe', payload, headers, secret, { clock, maxAge: 300, maxFutureSkew: 30 });
+      assert.deepStrictEqual(diagnosis.timestamp, { value: receivedAt - 600, age: 600, tolerance: 300 });
+      assert.strictEqual(diagnosis.match?.ignoresTimestamp, true);
+    });
+  });
+
+  describe('detectProvider', () => {
+    const secret = 'test-secret';
+    const payload = '{"type":"test.event"}';
+    const svixSecret = `whsec_${Buffer.from('test-secret-key-1234').toString('base64')}`;
+    const ranking = (headers: Record<string, string>) => detectProvider(headers).map((d) => d.provider);
+
+    it('should detect providers from branded headers', () => {
+      assert.deepStrictEqual(ranking(sign('stripe', payload, secret)), ['stripe']);
+      assert.deepStrictEqual(ranking({ 'X-Shopify-Hmac-Sha256': 'abc', 'X-Shopify-Topic': 'orders/create' }), ['shopify']);
+      assert.strictEqual(detectProvider(sign('stripe', payload, secret))[0].confidence, 1);
+    });
+
+    it('should prefer GitHub over Intercom when both signature headers are sent', () => {
+      const headers = {
+        ...sign('github', payload, secret),
+        'x-hub-signature': `sha1=${createHmac('sha1', secret).update(payload).digest('hex')}`,
+        'x-github-event': 'push',
+      };
+      const detected = detectProvider(headers);
+      assert.deepStrictEqual(detected.map((d) => d.provider), ['github', 'intercom']);
+      assert.ok(detected[0].confidence > detected[1].confidence);
+    });
+
+    it('should report generic headers with low confidence', () => {
+      const detected = detectProvider({ 'x-hub-signature': 'sha1=abc' });
+      assert.deepStrictEqual(detected, [{ provider: 'intercom', confidence: 0.5, headers: ['x-hub-signature'] }]);
+    });
+
+    it('should map svix headers to svix and clerk', () => {
+      assert.deepStrictEqual(ranking(sign('svix', payload, svixSecret)), ['svix', 'clerk']);
+    });
+
+    it('should return an empty list when nothing matches', () => {
+      assert.deepStrictEqual(detectProvider({ 'content-type': 'application/json' }), []);
+    });
+  });
+
+  describe('verifyAny', () => {
+    const payload = '{"type":"test.event"}';
+    const secrets = { stripe: 'stripe-secret', github: ['github-new', 'github-old'] };
+
+    it('should verify with the detected provider', () => {
+      const result = verifyAny(sign('stripe', payload, 'stripe-secret'), payload, secrets);
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.provider, 'stripe');
+    });
+
+    it('should try every secret configured for a provider', () => {
+      const result = verifyAny(sign('github', payload, 'github-old'), payload, secrets);
+      assert.deepStrictEqual(result, { valid: true, secretIndex: 1, provider: 'github' });
+    });
+
+    it('should report the failure of the best-ranked provider', () => {
+      const result = verifyAny(sign('stripe', payload, 'wrong'), payload, secrets);
+      assert.strictEqual(result.reason, 'signature_mismatch');
+      assert.strictEqual(result.provider, 'stripe');
+    });
+
+    it('should skip providers without a secret', () => {
+      const result = verifyAny(sign('slack', payload, 'slack-secret'), payload, secrets);
+      assert.deepStrictEqual(result, { valid: false, reason: 'missing_header' });
+    });
+  });
+
+  describe('secret resolver', () => {
+    const payload = JSON.stringify({ id: 'evt_1', account: 'acct_123' });
+
+    it('should pass routing fields to the resolver', () => {
+      const headers = { ...sign('shopify', payload, 'shop-secret'), 'x-shopify-shop-domain': 'acme.myshopify.com' };
+      const isValid = verify('shopify', payload, headers, ({ provider, routing, signatureData }) => {
+        assert.strictEqual(provider, 'shopify');
+        assert.ok(signatureData.signature);
+        return routing.shopDomain === 'acme.myshopify.com' ? 'shop-secret' : undefined;
+      });
+      assert.strictEqual(isValid, true);
+    });
+
+    it('should read the Stripe account from the body', () => {
+      const headers = sign('stripe', payload, 'acct-secret');
+      const result = verifyDetailed('stripe', payload, headers, ({ routing }) =>
+        routing.account === 'acct_123' ? ['other-secret', 'acct-secret'] : []
+      );
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.secretIndex, 1);
+    });
+
+    it('should fail with invalid_key when no secret is resolved', () => {
+      const headers = sign('stripe', payload, 'acct-secret');
+      assert.strictEqual(verify('stripe', payload, headers, () => undefined), false);
+      assert.strictEqual(verifyDetailed('stripe', payload, headers, () => []).reason, 'invalid_key');
+    });
+
+    it('should reject async resolvers in verify()', () => {
+      const headers = sign('stripe', payload, 'acct-secret');
+      assert.throws(
+        () => verify('stripe', payload, headers, async () => 'acct-secret'),
+        /Async secret resolvers require verifyAsync/
+      );
+    });
+
+    it('should await async resolvers in verifyAsync()', async () => {
+      const headers = sign('svix', payload, 'whsec_' + Buffer.from('svix-secret').toString('base64'));
+      const isValid = await verifyAsync('svix', payload, headers, async () =>
+        'whsec_' + Buffer.from('svix-secret').toString('base64')
+      );
+      assert.strictEqual(isValid, true);
+    });
+  });
+
+  describe('verifyAndParse', () => {
+    it('should return the Stripe event', () => {
+      const body = JSON.stringify({ id: 'evt_1', object: 'event', type: 'charge.succeeded', data: { object: {} } });
+      const result = verifyAndParse('stripe', body, sign('stripe', body, 'secret'), 'secret');
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.valid && result.event.type, 'charge.succeeded');
+    });
+
+    it('should key GitHub payloads by event type', () => {
+      const body = JSON.stringify({ ref: 'refs/heads/main', commits: [] });
+      const signed = sign('github', body, 'secret');
+      const result = verifyAndParse('github', body, { ...signed, 'x-github-event': 'push' }, 'secret');
+      assert.ok(result.valid);
+      assert.strictEqual(result.event.eventType, 'push');
+      if (result.event.eventType === 'push') {
+        assert.strictEqual(result.event.payload.ref, 'refs/heads/main');
+      }
+      assert.strictEqual(result.event.deliveryId, signed['x-github-delivery']);
+    });
+
+    it('should include the Shopify topic and shop', () => {
+      const body = JSON.stringify({ id: 1 });
+      const headers = {
+        ...sign('shopify', body, 'secret'),
+        'x-shopify-topic': 'orders/create',
+        'x-shopify-shop-domain': 'acme.myshopify.com',
+      };
+      const result = verifyAndParse('shopify', body, headers, 'secret');
+      assert.ok(result.valid);
+      assert.strictEqual(result.event.topic, 'orders/create');
+      assert.strictEqual(result.event.shopDomain, 'acme.myshopify.com');
+      assert.deepStrictEqual(result.event.payload, { id: 1 });
+    });
+
+    it('should return the Slack envelope', () => {
+      const body = JSON.stringify({ type: 'url_verification', token: 't', challenge: 'abc' });
+      const result = verifyAndParse('slack', body, sign('slack', body, 'secret'), 'secret');
+      assert.ok(result.valid);
+      assert.strictEqual(result.event.type === 'url_verification' && result.event.challenge, 'abc');
+    });
+
+    it('should parse Slack interactions and slash commands', () => {
+      const interaction = { type: 'block_actions', trigger_id: '1.2', actions: [{ action_id: 'approve' }] };
+      const body = `payload=${encodeURIComponent(JSON.stringify(interaction))}`;
+      const result = verifyAndParse('slack', body, sign('slack', body, 'secret'), 'secret');
+      assert.ok(result.valid);
+      assert.deepStrictEqual(result.event, interaction);
+
+      const command = 'command=%2Fdeploy&text=prod&response_url=https%3A%2F%2Fhooks.slack.com%2Fx&trigger_id=1.2&user_id=U1&team_id=T1&channel_id=C1';
+      const commandResult = verifyAndParse('slack', command, sign('slack', command, 'secret'), 'secret');
+      assert.ok(commandResult.valid);
+      assert.strictEqual(commandResult.event.type === undefined && commandResult.event.command, '/deploy');
+
+      const other = 'foo=bar';
+      assert.strictEqual(verifyAndParse('slack', other, sign('slack', other, 'secret'), 'secret').reason, 'invalid_payload');
+    });
+
+    it('should parse Twilio form fields, collecting repeated keys', () => {
+      const url = 'https://example.com/sms';
+      const body = 'From=%2B15551234567&Body=Hi&MediaUrl=a&MediaUrl=b';
+      const result = verifyAndParse('twilio', body, sign('twilio', body, 'token', { url }), 'token', { url });
+      assert.ok(result.valid);
+      assert.deepStrictEqual(result.event, { From: '+15551234567', Body: 'Hi', MediaUrl: ['a', 'b'] });
+    });
+
+    it('should fail with invalid_payload when the verified body cannot be parsed', () => {
+      const body = 'not json';
+      const result = verifyAndParse('stripe', body, sign('stripe', body, 'secret'), 'secret');
+      assert.deepStrictEqual(result, { valid: false, reason: 'invalid_payload', timestamp: result.timestamp });
+
+      for (const json of ['null', '42', '"text"']) {
+        assert.strictEqual(verifyAndParse('linear', json, sign('linear', json, 'secret'), 'secret').reason, 'invalid_payload', json);
+      }
+      const batch = '[{"eventId":1}]';
+      const batchResult = verifyAndParse('linear', batch, sign('linear', batch, 'secret'), 'secret');
+      assert.ok(batchResult.valid);
+      assert.deepStrictEqual(batchResult.event, [{ eventId: 1 }]);
+    });
+
+    it('should return the verification failure without parsing', () => {
+      const body = '{"id":"evt_1","type":"charge.succeeded"}';
+      const result = verifyAndParse('stripe', body, sign('stripe', body, 'wrong'), 'secret');
+      assert.strictEqual(result.reason, 'signature_mismatch');
+    });
+
+    it('should parse JSON for other providers (async)', async () => {
+      const body = '{"action":"create"}';
+      const result = await verifyAndParseAsync('linear', body, sign('linear', body, 'secret'), 'secret');
+      assert.ok(result.valid);
+      assert.deepStrictEqual(result.event, { action: 'create' });
+    });
+  });
+
+  describe('verifyRequest', () => {
+    it('should verify a Fetch Request and return its body', async () => {
+      const body = '{"id":"evt_1","type":"charge.succeeded"}';
+      const request = new Request('https://example.com/webhooks', {
+        method: 'POST',
+        headers: sign('stripe', body, 'secret'),
+        body,
+      });
+
+      const result = await verifyRequest('stripe', request, 'secret');
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(new TextDecoder().decode(result.body), body);
+      assert.ok(result.signatureData?.signature.startsWith('t='));
+    });
+
+    it('should use the request URL for URL-signing providers', async () => {
+      const url = 'https://example.com/sms?x=1';
+      const body = 'From=%2B15551234567&Body=Hi';
+      const request = new Request(url, { method: 'POST', headers: sign('twilio', body, 'token', { url }), body });
+
+      const result = await verifyRequest('twilio', request, 'token');
+      assert.strictEqual(result.valid, true);
+    });
+
+    it('should report missing headers with the body', async () => {
+      const request = new Request('https://example.com/webhooks', { method: 'POST', body: '{}' });
+
+      const result = await verifyRequest('github', request, 'secret');
+      assert.strictEqual(result.reason, 'missing_header');
+      assert.strictEqual(result.signatureData, undefined);
+      assert.strictEqual(new TextDecoder().decode(result.body), '{}');
+    });
+  });
+
+  describe('readAndVerify', () => {
+    /**
+     * Send one request to a server running readAndVerify() and return its result
+     */
+    async function readOnce(
+      options: ReadAndVerifyOptions,
+      init: { headers: Record<string, string>; body: string | Buffer },
+      provider: Provider = 'github'
+    ): Promise<ReadAndVerifyResult> {
+      let result: ReadAndVerifyResult | undefined;
+      const server = createServer(async (req, res) => {
+        result = await readAndVerify(provider, req, 'secret', options);
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        await fetch(`http://127.0.0.1:${port}/webhooks`, {
+          method: 'POST',
+          headers: init.headers,
+          body: typeof init.body === 'string' ? init.body : new Uint8Array(init.body),
+        });
+        return result!;
+      } finally {
+        server.close();
+      }
+    }
+
+    const body = JSON.stringify({ action: 'opened', data: 'x'.repeat(200) });
+
+    it('should read and verify the body', async () => {
+      const result = await readOnce({}, { headers: sign('github', body, 'secret'), body });
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.body.toString(), body);
+      assert.ok(result.signatureData?.signature.startsWith('sha256='));
+    });
+
+    it('should verify the decoded body of gzip requests', async () => {
+      const result = await readOnce(
+        {},
+        { headers: { ...sign('github', body, 'secret'), 'content-encoding': 'gzip' }, body: gzipSync(body) }
+      );
+      assert.strictEqual(result.valid, true);
+      assert.strictEqual(result.body.toString(), body);
+    });
+
+    it('should verify the compressed bytes for providers that sign them', async () => {
+      const compressed = gzipSync(body);
+      const headers = { 'x-acme-signature': hmac.sign(compressed, 'secret', { prefix: 'v1=' }), 'content-encoding': 'gzip' };
+      const result = await readOnce({}, { headers, body: compressed }, 'acme');
+      assert.strictEqual(result.valid, true);
+      assert.deepStrictEqual(result.body, compressed);
+
+      // Unless told that the provider signs the decoded body
+      const decoded = await readOnce({ decompress: true }, { headers, body: compressed }, 'acme');
+      assert.strictEqual(decoded.reason, 'signature_mismatch');
+    });
+
+    it('should reject a Content-Length over the limit before reading', async () => {
+      const result = await readOnce({ maxBodySize: 100 }, { headers: sign('github', body, 'secret'), body });
+      assert.strictEqual(result.reason, 'payload_too_large');
+      assert.strictEqual(result.body.length, 0);
+    });
+
+    it('should limit the decompressed size', async () => {
+      const bomb = JSON.stringify({ data: '0'.repeat(100000) });
+      const result = await readOnce(
+        { maxBodySize: 1000 },
+        { headers: { ...sign('github', bomb, 'secret'), 'content-encoding': 'gzip' }, body: gzipSync(bomb) }
+      );
+      assert.strictEqual(result.reason, 'payload_too_large');
+    });
+
+    it('should reject unsupported encodings', async () => {
+      const result = await readOnce(
+        {},
+        { headers: { ...sign('github', body, 'secret'), 'content-encoding': 'zstd' }, body }
+      );
+      assert.strictEqual(result.reason, 'invalid_payload');
+    });
+  });
+
+  describe('webhookMiddleware', () => {
+    /**
+     * Serve a single request through the middleware and return the response
+     */
+    async function serve(
+      config: WebhookMiddlewareConfig,
+      path: string,
+      init: { headers: Record<string, string>; body: string }
+    ) {
+      const middleware = webhookMiddleware(config);
+      const server = createServer((req, res) => {
+        middleware(req, res, (error) => {
+          res.statusCode = error ? 500 : 200;
+          res.end(JSON.stringify(error ? String(error) : (req as { webhook?: unknown }).webhook));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const response = await fetch(`http://127.0.0.1:${port}${path}`, { method: 'POST', ...init });
+        return { status: response.status, body: await response.json() };
+      } finally {
+        server.close();
+      }
+    }
+
+    it('should verify the raw body and attach req.webhook', async () => {
+      const body = JSON.stringify({ id: 'evt_1', type: 'charge.succeeded' });
+      const { status, body: webhook } = await serve({ provider: 'stripe', secret: 'secret' }, '/webhooks', {
+        headers: { ...sign('stripe', body, 'secret'), 'content-type': 'application/json' },
+        body,
+      });
+      assert.strictEqual(status, 200);
+      assert.strictEqual(webhook.provider, 'stripe');
+      assert.strictEqual(webhook.event.type, 'charge.succeeded');
+      assert.ok(webhook.signatureData.signature);
+    });
+
+    it('should respond 401 when the signature does not match', async () => {
+      const body = '{"id":"evt_1","type":"charge.succeeded"}';
+      const result = await serve({ provider: 'stripe', secret: 'secret' }, '/webhooks', {
+        headers: sign('stripe', body, 'wrong'),
+        body,
+      });
+      assert.strictEqual(result.status, 401);
+      assert.deepStrictEqual(result.body, { error: 'Webhook verification failed', reason: 'signature_mismatch' });
+    });
+
+    it('should respond 400 when the signature header is missing', async () => {
+      const result = await serve({ provider: 'github', secret: 'secret' }, '/webhooks', {
+        headers: {},
+        body: '{}',
+      });
+      assert.strictEqual(result.status, 400);
+      assert.strictEqual(result.body.reason, 'missing_header');
+    });
+
+    it('should respond 413 when the body is too large', async () => {
+      const body = JSON.stringify({ data: 'x'.repeat(2048) });
+      const result = await serve({ provider: 'github', secret: 'secret', maxBodySize: 1024 }, '/webhooks', {
+        headers: sign('github', body, 'secret'),
+        body,
+      });
+      assert.strictEqual(result.status, 413);
+    });
+
+    it('should derive the URL for URL-signing providers from the request', async () => {
+      const body = 'From=%2B15551234567&Body=Hi';
+      const middleware = webhookMiddleware({ provider: 'twilio', secret: 'token' });
+      const server = createServer((req, res) => {
+        middleware(req, res, () => res.end('ok'));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const url = `http://127.0.0.1:${port}/sms?x=1`;
+        const response = await fetch(url, { method: 'POST', headers: sign('twilio', body, 'token', { url }), body });
+        assert.strictEqual(response.status, 200);
+      } finally {
+        server.close();
+      }
+    });
+
+    it('should use the host Express resolved behind a trusted proxy', async () => {
+      const body = 'From=%2B15551234567&Body=Hi';
+      const url = 'https://api.example.com:8443/sms';
+      const middleware = webhookMiddleware({ provider: 'twilio', secret: 'token' });
+      const server = createServer((req, res) => {
+        // What Express sets with `trust proxy` enabled
+        Object.assign(req, { protocol: 'https', hostname: 'api.example.com' });
+        middleware(req, res, () => res.end('ok'));
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const { port } = server.address() as AddressInfo;
+        const headers = { ...sign('twilio', body, 'token', { url }), 'x-forwarded-host': 'api.example.com:8443, lb.internal' };
+        const response = await fetch(`http://127.0.0.1:${port}/sms`, { method: 'POST', headers, body });
+        assert.strictEqual(response.status, 200);
+      } finally {
+        server.close();
+      }
+    });
+  });
+
+  describe('fastify plugin', () => {
+    /**
+     * Build an app with webhook routes under /webhooks and a JSON route outside
+     */
+    async function buildApp(opts: Parameters<typeof webhookVerify>[1] = {}) {
+      const app = Fastify();
+
+      await app.register(
+        async (webhooks) => {
+          await webhooks.register(webhookVerify, opts);
+
+          webhooks.post(
+            '/stripe',
+            { config: { webhook: { provider: 'stripe', secret: 'secret' } } },
+            async (request) => request.webhook
+          );
+          webhooks.post(
+            '/twilio',
+            { config: { webhook: { provider: 'twilio', secret: 'token' } } },
+            async (request) => request.webhook!.event
+          );
+        },
+        { prefix: '/webhooks' }
+      );
+      app.post('/api', async (request) => request.body);
+
+      return app;
+    }
+
+    it('should verify configured routes and decorate the request', async () => {
+      const app = await buildApp();
+      const body = '{"id":"evt_1","type":"charge.succeeded"}';
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/stripe',
+        headers: { ...sign('stripe', body, 'secret'), 'content-type': 'application/json' },
+        payload: body,
+      });
+      assert.strictEqual(response.statusCode, 200);
+      assert.strictEqual(response.json().event.type, 'charge.succeeded');
+    });
+
+    it('should verify form bodies against the request URL', async () => {
+      const app = await buildApp();
+      const body = 'From=%2B15551234567&Body=Hi';
+      const url = 'http://localhost:80/webhooks/twilio';
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/webhooks/twilio',
+        headers: {
+          ...sign('twilio', body, 'token', { url }),
+          'content-type': 'application/x-www-form-urlencoded',
+        },
+        payload: body,
+      });
+      assert.strictEqual(response.statusCode, 200);
+      assert.deepStrictEqual(response.json(), { From: '+15551234567', Body: 'Hi' });
+    });
+
+    it('should reject failed verification with 401 and missing headers with 400', async () => {
+      const app = await buildApp();
+      const body = '{"id":"evt_1","type":"charge.succeeded"}';
+
+      const mismatch = await app.inject({
+        method: 'POST',
+        url: '/webhooks/stripe',
+        headers: { ...sign('stripe', body, 'wrong'), 'content-type': 'application/json' },
+        payload: body,
+      });
+      assert.strictEqual(mismatch.statusCode, 401);
+      assert.deepStrictEqual(mismatch.json(), { error: 'Webhook verification failed', reason: 'signature_mismatch' });
+
+      const missing = await app.inject({ method: 'POST', url: '/webhooks/stripe', payload: body });
+      assert.strictEqual(missing.statusCode, 400);
+    });
+
+    it('should send a custom rejection reply', async () => {
+      const app = await buildApp({
+        onRejected: (_request, reply, reason) => reply.code(403).send({ rejected: reason }),
+      });
+
+      const response = await app.inject({ method: 'POST', url: '/webhooks/stripe', payload: '{}' });
+      assert.strictEqual(response.statusCode, 403);
+      assert.deepStrictEqual(response.json(), { rejected: 'missing_header' });
+    });
+
+    it('should leave JSON parsing of routes outside the scope intact', async () => {
+      const app = await buildApp();
+
+      const response = await app.inject({ method: 'POST', url: '/api', payload: { hello: 'world' } });
+      assert.deepStrictEqual(response.json(), { hello: 'world' });
+    });
+  });
+
+  describe('cli', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'webhook-verify-'));
+
+    /**
+     * Run the CLI and capture its exit status and output
+     */
+    function run(argv: string[], env: Record<string, string> = {}) {
+      let stdout = '';
+      let stderr = '';
+      const status = main(argv, {
+        stdout: { write: (text: string) => (stdout += text) },
+        stderr: { write: (text: string) => (stderr += text) },
+        env,
+      });
+      return { status, stdout, stderr };
+    }
+
+    const body = '{"id":"evt_1","type":"charge.succeeded"}';
+    const bodyFile = join(dir, 'body.json');
+    writeFileSync(bodyFile, body);
+
+    it('should verify a body file with headers', () => {
+      const [header] = Object.entries(sign('stripe', body, 'secret'));
+      const result = run([
+        'verify',
+        '--provider', 'stripe',
+        '--secret', 'secret',
+        '--body', `@${bodyFile}`,
+        '--header', header.join(':'),
+      ]);
+      assert.strictEqual(result.status, 0);
+      assert.match(result.stdout, /^valid \(provider: stripe, signed at /);
+    });
+
+    it('should read the secret from the environment and fail with the reason', () => {
+      const [header] = Object.entries(sign('stripe', body, 'wrong'));
+      const result = run(['verify', '--provider', 'stripe', '--body', body, '--header', header.join(':')], {
+        WEBHOOK_SECRET: 'secret',
+      });
+      assert.strictEqual(result.status, 1);
+      assert.strictEqual(result.stdout, 'invalid: signature_mismatch\n');
+    });
+
+    it('should verify a raw HTTP request file', () => {
+      const form = 'From=%2B15551234567&Body=Hi';
+      const signature = sign('twilio', form, 'token', { url: 'https://example.com/sms?x=1' })['x-twilio-signature'];
+      const requestFile = join(dir, 'request.http');
+      writeFileSync(
+        requestFile,
+        `POST /sms?x=1 HTTP/1.1\r\nHost: example.com\r\nX-Twilio-Signature: ${signature}\r\n` +
+          `Content-Type: application/x-www-form-urlencoded\r\n\r\n${form}`
+      );
+
+      const result = run(['verify', '--provider', 'twilio', '--secret', 'token', '--request', requestFile]);
+      assert.strictEqual(result.status, 0);
+    });
+
+    it('should list the expected headers when they are missing', () => {
+      const result = run(['verify', '--provider', 'github', '--secret', 'secret', '--body', body]);
+      assert.strictEqual(result.status, 1);
+      assert.match(result.stderr, /x-hub-signature-256/);
+    });
+
+    it('should sign a curl command', () => {
+      const url = 'http://localhost:3000/webhooks/stripe';
+      const result = run([
+        'sign',
+        '--provider', 'stripe',
+        '--secret', 'secret',
+        '--body', `@${bodyFile}`,
+        '--url', url,
+      ]);
+      assert.strictEqual(result.status, 0);
+      assert.match(result.stdout, /^curl -X POST http:\/\/localhost:3000\/webhooks\/stripe /);
+      assert.match(result.stdout, /-H 'stripe-signature: t=\d+,v1=[0-9a-f]{64}'/);
+      assert.match(result.stdout, /-H 'content-type: application\/json'/);
+      assert.ok(result.stdout.endsWith(`--data-binary @${bodyFile}\n`));
+    });
+
+    it('should sign a raw HTTP request that verifies', () => {
+      const result = run([
+        'sign',
+        '--provider', 'github',
+        '--secret', 'secret',
+        '--body', body,
+        '--url', 'https://example.com/webhooks/github',
+        '--header', 'x-github-event:push',
+        '--format', 'http',
+      ]);
+      assert.strictEqual(result.status, 0);
+      assert.match(result.stdout, /^POST \/webhooks\/github HTTP\/1.1\r\nhost: example.com\r\n/);
+
+      const requestFile = join(dir, 'signed.http');
+      writeFileSync(requestFile, result.stdout);
+      assert.strictEqual(run(['verify', '--provider', 'github', '--secret', 'secret', '--request', requestFile]).status, 0);
+    });
+
+    it('should sign with a timestamp override to produce stale requests', () => {
+      const stale = Math.floor(Date.now() / 1000) - 3600;
+      const result = run([
+        'sign', '--provider', 'slack', '--secret', 'secret', '--body', body,
+        '--timestamp', String(stale), '--format', 'headers',
+      ]);
+      assert.strictEqual(result.status, 0);
+      assert.match(result.stdout, new RegExp(`x-slack-request-timestamp: ${stale}\n`));
+
+      const headers = result.stdout.trim().split('\n').flatMap((line) => ['--header', line]);
+      const verified = run(['verify', '--provider', 'slack', '--secret', 'secret', '--body', body, ...headers]);
+      assert.strictEqual(verified.stdout, 'invalid: timestamp_expired\n');
+    });
+
+    it('should exit with status 2 on usage errors', () => {
+      assert.strictEqual(run(['sign', '--provider', 'stripe', '--secret', 's', '--body', body]).status, 2);
+      assert.strictEqual(run(['sign', '--provider', 'stripe', '--secret', 's', '--body', body, '--format', 'xml']).status, 2);
+      assert.strictEqual(run(['verify', '--provider', 'nope', '--secret', 's', '--body', body]).status, 2);
+      assert.strictEqual(run(['verify', '--provider', 'stripe', '--body', body]).status, 2);
+      assert.strictEqual(run(['verify', '--bogus']).status, 2);
+      assert.strictEqual(run(['frobnicate']).status, 2);
+    });
+
+    it('should explain failed signatures on stderr', () => {
+      const headers = Object.entries(sign('stripe', body, 'whsec_test')).flatMap(([name, value]) => [
+        '--header',
+        `${name}:${value}`,
+      ]);
+      const result = run(['verify', '--provider', 'stripe', '--secret', 'test', '--body', body, ...headers]);
+      assert.strictEqual(result.status, 1);
+      assert.match(result.stderr, /"whsec_" prefix/);
+    });
+  });
+
+  describe('CommonJS build', () => {
+    const outDir = mkdtempSync(join(tmpdir(), 'webhook-verify-cjs-'));
+    const requireCjs = createRequire(import.meta.url);
+    let cjs: typeof import('../src/index.js');
+
+    const body = '{"event":"ping"}';
+    const signature = hmac.sign(body, 'secret', { prefix: 'v1=' });
+
+    before(async () => {
+      await build({ format: ['cjs'], dts: false, sourcemap: false, outDir, silent: true });
+      cjs = requireCjs(join(outDir, 'index.cjs'));
+
+      // Registered through the main entry only
+      cjs.registerProvider('acme', {
+        verify: (payload, sig, secret) => cjs.hmac.verify(payload, sig, secret, { prefix: 'v1=' }),
+        extractHeaders: (headers) => {
+          const sig = headers['x-acme-signature'];
+          return typeof sig === 'string' ? { signature: sig, rawSignature: sig } : null;
+        },
+        headerNames: { signature: 'x-acme-signature' },
+        sign: (payload, secret) => ({ 'x-acme-signature': cjs.hmac.sign(payload, secret, { prefix: 'v1=' }) }),
+      });
+    });
+
+    it('should share providers and policy with the Express middleware', async () => {
+      const { webhookMiddleware: cjsMiddleware } = requireCjs(join(outDir, 'express.cjs')) as typeof import('../src/express.js');
+
+      /**
+       * Send one request through a middleware and return the response status
+       */
+      async function status(config: WebhookMiddlewareConfig, headers: Record<string, string>, payload: string) {
+        const middleware = cjsMiddleware(config);
+        const server = createServer((req, res) => {
+          middleware(req, res, (error) => {
+            res.statusCode = error ? 500 : 200;
+            res.end();
+          });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        try {
+          const { port } = server.address() as AddressInfo;
+          return (await fetch(`http://127.0.0.1:${port}/`, { method: 'POST', headers, body: payload })).status;
+        } finally {
+          server.close();
+        }
+      }
+
+      assert.strictEqual(await status({ provider: 'acme', secret: 'secret' }, { 'x-acme-signature': signature }, body), 200);
+
+      const githubHeaders = cjs.sign('github', body, 'secret');
+      cjs.configure({ minHashStrength: 'sha512' });
+      try {
+        assert.strictEqual(await status({ provider: 'github', secret: 'secret' }, githubHeaders, body), 401);
+      } finally {
+        cjs.configure({});
+      }
+    });
+
+    it('should share providers with the Fastify plugin', async () => {
+      const { default: cjsPlugin } = requireCjs(join(outDir, 'fastify.cjs')) as typeof import('../src/fastify.js');
+      const app = Fastify();
+      await app.register(cjsPlugin);
+      app.post('/acme', { config: { webhook: { provider: 'acme', secret: 'secret' } } }, async () => 'ok');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/acme',
+        headers: { 'x-acme-signature': signature, 'content-type': 'application/json' },
+        payload: body,
+      });
+      assert.strictEqual(response.statusCode, 200);
+    });
+
+    it('should share providers with the testing helpers', () => {
+      const { createSignedRequest: cjsCreateSignedRequest } = requireCjs(join(outDir, 'testing.cjs')) as typeof import('../src/testing.js');
+      const request = cjsCreateSignedRequest('acme', body, 'secret');
+      assert.deepStrictEqual(request.headers, { 'x-acme-signature': signature });
+      assert.strictEqual(cjs.verify('acme', request.body, request.headers, 'secret'), true);
+    });
+  });
+
+  describe('diagnose', () => {
+    const event = { id: 'evt_1', type: 'charge.succeeded', data: { amount: 100 } };
+    const compact = JSON.stringify(event);
+    const pretty = JSON.stringify(event, null, 2);
+
+    it('should confirm a valid signature', () => {
+      const diagnosis = diagnose('stripe', compact, sign('stripe', compact, 'whsec_test'), 'whsec_test');
+      assert.strictEqual(diagnosis.result.valid, true);
+      assert.deepStrictEqual(diagnosis.match, { payload: 'as_sent', secret: 'as_given', ignoresTimestamp: false });
+      assert.ok(diagnosis.timestamp && Math.abs(diagnosis.timestamp.age) <= 1);
+    });
+
+    it('should detect a re-serialized JSON body', () => {
+      const diagnosis = diagnose('github', pretty, sign('github', compact, 'secret'), 'secret');
+      assert.strictEqual(diagnosis.result.reason, 'signature_mismatch');
+      assert.strictEqual(diagnosis.match?.payload, 'compact_json');
+      assert.match(diagnosis.hints[0], /compact JSON/);
+
+      const stripped = diagnose('github', compact, sign('github', `${compact}\n`, 'secret'), 'secret');
+      assert.strictEqual(stripped.match?.payload, 'trailing_newline_added');
+    });
+
+    it('should detect a secret with or without the whsec_ prefix', () => {
+      const diagnosis = diagnose('stripe', compact, sign('stripe', compact, 'whsec_test'), 'test');
+      assert.strictEqual(diagnosis.match?.secret, 'prefix_added');
+
+      const padded = diagnose('github', compact, sign('github', compact, 'secret'), ' secret\n');
+      assert.strictEqual(padded.match?.secret, 'trimmed');
+    });
+
+    it('should detect a hex secret where base64 is expected', () => {
+      const key = Buffer.from('0123456789abcdef0123456789abcdef');
+      const headers = sign('svix', compact, `whsec_${key.toString('base64')}`);
+
+      const diagnosis = diagnose('svix', compact, headers, key.toString('hex'));
+      assert.strictEqual(diagnosis.match?.secret, 'hex_to_base64');
+    });
+
+    it('should detect an alternate URL form', () => {
+      const body = 'From=%2B15551234567&Body=Hi';
+      const headers = sign('twilio', body, 'token', { url: 'https://example.com/sms' });
+
+      const diagnosis = diagnose('twilio', body, headers, 'token', { url: 'http://example.com:8080/sms/' });
+      assert.strictEqual(diagnosis.match, null);
+
+      const proxied = diagnose('twilio', body, headers, 'token', { url: 'http://example.com/sms/' });
+      assert.strictEqual(proxied.match?.url, 'https://example.com/sms');
+      assert.match(proxied.hints[0], /https:\/\/example\.com\/sms/);
+    });
+
+    it('should report how far off the timestamp is', () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 1000;
+      const headers = sign('stripe', compact, 'whsec_test', { timestamp });
+
+      const diagnosis = diagnose('stripe', pretty, headers, 'whsec_test');
+      assert.strictEqual(diagnosis.result.reason, 'timestamp_expired');
+      assert.strictEqual(diagnosis.match?.payload, 'compact_json');
+      assert.strictEqual(diagnosis.match?.ignoresTimestamp, true);
+      assert.strictEqual(diagnosis.timestamp?.value, timestamp);
+      assert.ok(diagnosis.timestamp.age >= 1000 && diagnosis.timestamp.age <= 1001);
+      assert.ok(diagnosis.hints.some((hint) => /10\d\ds old, beyond the 300s tolerance/.test(hint)));
+    });
+
+    it('should never include the secret', () => {
+      const secret = 'whsec_c2VjcmV0LXZhbHVl';
+      const diagnosis = diagnose('stripe', compact, sign('stripe', compact, 'whsec_other'), secret);
+      assert.strictEqual(diagnosis.match, null);
+      assert.match(diagnosis.hints[0], /No variation/);
+
+      const serialized = JSON.stringify(diagnosis);
+      for (const value of [secret, 'c2VjcmV0LXZhbHVl', Buffer.from('secret-value').toString('hex')]) {
+        assert.ok(!serialized.includes(value));
+      }
+    });
+
+    it('should name the expected headers when they are missing', () => {
+      const diagnosis = diagnose('github', compact, {}, 'secret');
+      assert.strictEqual(diagnosis.result.reason, 'missing_header');
+      assert.match(diagnosis.hints[0], /x-hub-signature-256/);
+    });
+  });
+
+  describe('request URLs', () => {
+    const internal = { host: 'internal:8080' };
+
+    it('should use the Host header unless the proxy is trusted', () => {
+      const headers = { ...internal, 'x-forwarded-proto': 'https', 'x-forwarded-host': 'api.example.com' };
+      assert.strictEqual(resolveRequestUrl(headers, '/sms?x=1'), 'http://internal:8080/sms?x=1');
+      assert.strictEqual(resolveRequestUrl(internal, '/sms', { protocol: 'https' }), 'https://internal:8080/sms');
+    });
+
+    it('should honour X-Forwarded-* headers', () => {
+      const headers = {
+        ...internal,
+        'x-forwarded-proto': 'https, http',
+        'x-forwarded-host': 'api.example.com, lb.internal',
+        'x-forwarded-port': '443',
+      };
+      assert.strictEqual(resolveRequestUrl(headers, '/sms', { trustProxy: true }), 'https://api.example.com/sms');
+
+      const port = { ...internal, 'x-forwarded-proto': 'https', 'x-forwarded-port': '8443' };
+      assert.strictEqual(resolveRequestUrl(port, '/sms', { trustProxy: true }), 'https://internal:8080/sms');
+      assert.strictEqual(
+        resolveRequestUrl({ ...port, 'x-forwarded-host': 'api.example.com' }, '/sms', { trustProxy: true }),
+        'https://api.example.com:8443/sms'
+      );
+    });
+
+    it('should prefer the RFC 7239 Forwarded header', () => {
+      const headers = {
+        ...internal,
+        forwarded: 'for=192.0.2.60;Proto=https;host="api.example.com:8443", for=10.0.0.1;proto=http;host=lb',
+        'x-forwarded-host': 'other.example.com',
+      };
+      assert.strictEqual(resolveRequestUrl(headers, '/sms', { trustProxy: true }), 'https://api.example.com:8443/sms');
+    });
+
+    it('should use the public base URL', () => {
+      const url = resolveRequestUrl(internal, '/sms', { publicBaseUrl: 'https://api.example.com/app/', trustProxy: true });
+      assert.strictEqual(url, 'https://api.example.com/app/sms');
+      assert.throws(() => resolveRequestUrl({}, '/sms'), /no Host header/);
+    });
+
+    it('should list default port and trailing slash variants', () => {
+      assert.deepStrictEqual(urlVariants('https://example.com/sms?x=1'), [
+        'https://example.com/sms?x=1',
+        'https://example.com/sms/?x=1',
+        'https://example.com:443/sms?x=1',
+        'https://example.com:443/sms/?x=1',
+      ]);
+      assert.deepStrictEqual(urlVariants('http://example.com:8080/sms/'), [
+        'http://example.com:8080/sms/',
+        'http://example.com:8080/sms',
+      ]);
+    });
+
+    it('should try each candidate URL in turn', async () => {
+      const cases: [Provider, string][] = [
+        ['twilio', 'Body=Hi'],
+        ['square', '{"type":"payment.created"}'],
+        ['hubspot', '[{"eventId":1}]'],
+        ['crystallize', '{"id":"1"}'],
+      ];
+
+      for (const [provider, body] of cases) {
+        const headers = sign(provider, body, 'secret', { url: 'https://example.com:443/hooks/' });
+        const url = urlVariants('https://example.com/hooks');
+
+        assert.strictEqual(verify(provider, body, headers, 'secret', { url }), true, provider);
+        assert.strictEqual(verifyDetailed(provider, body, headers, 'secret', { url }).valid, true, provider);
+        assert.strictEqual((await verifyDetailedAsync(provider, body, headers, 'secret', { url })).valid, true, provider);
+        assert.strictEqual(
+          verifyDetailed(provider, body, headers, 'secret', { url: 'https://example.com/hooks' }).reason,
+          'signature_mismatch',
+          provider
+        );
+        assert.strictEqual(verifyDetailed(provider, body, headers, 'secret', { url: [] }).reason, 'missing_option', provider);
+      }
+    });
+  });
+
   describe('getSupportedProviders', () => {
     it('should return array of providers', () => {
       const providers = getSupportedProviders();
@@ -417,6 +2333,41 @@ describe('webhook-verify', () => {
       const signature = generateTwilioSignature(url, payload, secret);
       assert.strictEqual(verify('twilio', payload, signature, secret), false);
     });
+
+    it('should sign repeated keys once per distinct value, in sorted order', () => {
+      const form = 'To=%2B1555&MediaUrl=b&MediaUrl=a&MediaUrl=b&body=x';
+      const base = `${url}MediaUrlaMediaUrlbTo+1555bodyx`;
+      const signature = createHmac('sha1', secret).update(base).digest('base64');
+
+      assert.strictEqual(verify('twilio', form, signature, secret, { url }), true);
+      assert.strictEqual(sign('twilio', form, secret, { url })['x-twilio-signature'], signature);
+    });
+
+    describe('JSON bodies', () => {
+      const body = '{"EventType":"onMessageAdded","Body":"Hi"}';
+      const bodySha256 = createHash('sha256').update(body).digest('hex');
+      const signedUrl = `${url}?bodySHA256=${bodySha256}`;
+      const signature = createHmac('sha1', secret).update(signedUrl).digest('base64');
+
+      it('should verify the URL signature and the body hash', async () => {
+        assert.strictEqual(verify('twilio', body, signature, secret, { url: signedUrl }), true);
+        assert.strictEqual(await verifyAsync('twilio', body, signature, secret, { url: signedUrl }), true);
+        assert.strictEqual(sign('twilio', body, secret, { url: signedUrl })['x-twilio-signature'], signature);
+      });
+
+      it('should reject a body that does not match the hash', async () => {
+        const tampered = body.replace('Hi', 'Bye');
+        assert.strictEqual(verifyDetailed('twilio', tampered, signature, secret, { url: signedUrl }).reason, 'signature_mismatch');
+        assert.strictEqual(await verifyAsync('twilio', tampered, signature, secret, { url: signedUrl }), false);
+      });
+
+      it('should parse the JSON body', () => {
+        const headers = { 'x-twilio-signature': signature };
+        const result = verifyAndParse('twilio', body, headers, secret, { url: signedUrl });
+        assert.ok(result.valid);
+        assert.deepStrictEqual(result.event, { EventType: 'onMessageAdded', Body: 'Hi' });
+      });
+    });
   });
 
   describe('Svix', () => {
@@ -581,6 +2532,44 @@ describe('webhook-verify', () => {
       const signature = generateHubSpotSignature('POST', url, payload, secret, oldTimestamp);
       assert.strictEqual(verify('hubspot', payload, signature, secret, { url }), false);
     });
+
+    describe('v1 and v2 signatures', () => {
+      const v1 = createHash('sha256').update(secret + payload).digest('hex');
+      const v2 = createHash('sha256').update(secret + 'POST' + url + payload).digest('hex');
+
+      it('should verify v1 signatures without a url', async () => {
+        const headers = { 'x-hubspot-signature': v1, 'x-hubspot-signature-version': 'v1' };
+        assert.strictEqual(verify('hubspot', payload, headers, secret), true);
+        assert.strictEqual(await verifyAsync('hubspot', payload, headers, secret), true);
+        assert.strictEqual(verify('hubspot', payload, { 'x-hubspot-signature': v1 }, secret), true);
+        assert.strictEqual(verifyDetailed('hubspot', `${payload} `, headers, secret).reason, 'signature_mismatch');
+      });
+
+      it('should verify v2 signatures over the method and url', async () => {
+        const headers = { 'x-hubspot-signature': v2.toUpperCase(), 'x-hubspot-signature-version': 'v2' };
+        assert.strictEqual(verify('hubspot', payload, headers, secret, { url }), true);
+        assert.strictEqual(await verifyAsync('hubspot', payload, headers, secret, { url }), true);
+        assert.strictEqual(verifyDetailed('hubspot', payload, headers, secret).reason, 'missing_option');
+        assert.strictEqual(verify('hubspot', payload, headers, secret, { url, method: 'PUT' }), false);
+      });
+
+      it('should prefer the v3 signature when present', () => {
+        const [signature, timestamp] = generateHubSpotSignature('POST', url, payload, secret).split(',t=');
+        const headers = {
+          'x-hubspot-signature-v3': signature,
+          'x-hubspot-request-timestamp': timestamp,
+          'x-hubspot-signature': 'stale',
+          'x-hubspot-signature-version': 'v1',
+        };
+        assert.strictEqual(getSignature('hubspot', headers)?.signature, `${signature},t=${timestamp}`);
+        assert.strictEqual(verify('hubspot', payload, headers, secret, { url }), true);
+      });
+
+      it('should reject unknown versions', () => {
+        const headers = { 'x-hubspot-signature': v1, 'x-hubspot-signature-version': 'v9' };
+        assert.strictEqual(verifyDetailed('hubspot', payload, headers, secret).reason, 'malformed_signature');
+      });
+    });
   });
 
   describe('Segment', () => {
@@ -748,6 +2737,245 @@ describe('webhook-verify', () => {
         assert.strictEqual(validateTimestamp(ts), true);
       });
     });
+
+    describe('jwt', () => {
+      const pem = { type: 'spki', format: 'pem' } as const;
+      const privatePem = { type: 'pkcs8', format: 'pem' } as const;
+      const rsaPair = generateKeyPairSync('rsa', { modulusLength: 2048, publicKeyEncoding: pem, privateKeyEncoding: privatePem });
+      const ecPair = generateKeyPairSync('ec', { namedCurve: 'P-256', publicKeyEncoding: pem, privateKeyEncoding: privatePem });
+      const edPair = generateKeyPairSync('ed25519', { publicKeyEncoding: pem, privateKeyEncoding: privatePem });
+      const now = Math.floor(Date.now() / 1000);
+      const claims = { sub: 'evt_1', iat: now, exp: now + 60, aud: ['webhooks'], iss: 'https://events.example.com' };
+
+      const cases: [JwtAlgorithm, string, string][] = [
+        ['HS256', 'secret', 'secret'],
+        ['HS384', 'secret', 'secret'],
+        ['HS512', 'secret', 'secret'],
+        ['RS256', rsaPair.privateKey, rsaPair.publicKey],
+        ['PS256', rsaPair.privateKey, rsaPair.publicKey],
+        ['ES256', ecPair.privateKey, ecPair.publicKey],
+        ['EdDSA', edPair.privateKey, edPair.publicKey],
+      ];
+
+      for (const [algorithm, privateKey, publicKey] of cases) {
+        it(`should verify ${algorithm} tokens`, async () => {
+          const token = jwt.sign(claims, privateKey, { algorithm });
+          const options = { algorithms: [algorithm] };
+
+          const result = jwt.verify(token, publicKey, options);
+          assert.strictEqual(result.valid, true);
+          assert.deepStrictEqual(result.payload, claims);
+          assert.strictEqual(result.header?.alg, algorithm);
+          assert.strictEqual(result.timestamp, now);
+          assert.strictEqual((await jwt.verifyAsync(token, publicKey, options)).valid, true);
+
+          const tampered = token.replace(/\.[\w-]+\./, `.${Buffer.from(JSON.stringify({ ...claims, sub: 'x' })).toString('base64url')}.`);
+          assert.strictEqual(jwt.verify(tampered, publicKey, options).reason, 'signature_mismatch');
+          assert.strictEqual((await jwt.verifyAsync(tampered, publicKey, options)).reason, 'signature_mismatch');
+        });
+      }
+
+      it('should only accept the allowed algorithms', async () => {
+        const token = jwt.sign(claims, 'secret', { algorithm: 'HS512' });
+        assert.strictEqual(jwt.verify(token, 'secret', { algorithms: ['HS256'] }).reason, 'invalid_claims');
+
+        const unsigned = `${Buffer.from('{"alg":"none"}').toString('base64url')}.${token.split('.')[1]}.`;
+        assert.strictEqual(jwt.verify(unsigned, 'secret', { algorithms: ['HS256'] }).reason, 'invalid_claims');
+      });
+
+      it('should not use a public key as an HMAC secret', async () => {
+        const token = jwt.sign(claims, rsaPair.publicKey, { algorithm: 'HS256' });
+        const options = { algorithms: ['HS256', 'RS256'] as JwtAlgorithm[] };
+        assert.strictEqual(jwt.verify(token, rsaPair.publicKey, options).reason, 'invalid_key');
+        assert.strictEqual((await jwt.verifyAsync(token, rsaPair.publicKey, options)).reason, 'invalid_key');
+      });
+
+      it('should not accept HMAC tokens when asymmetric algorithms are allowed', async () => {
+        const edPair = generateKeyPairSync('ed25519');
+        const publicHex = edPair.publicKey.export({ type: 'spki', format: 'der' }).toString('hex');
+        const token = jwt.sign(claims, publicHex, { algorithm: 'HS256' });
+        const mixed = { algorithms: ['HS256', 'EdDSA'] as JwtAlgorithm[] };
+        assert.strictEqual(jwt.verify(token, publicHex, mixed).reason, 'invalid_key');
+        assert.strictEqual((await jwt.verifyAsync(token, publicHex, mixed)).reason, 'invalid_key');
+        assert.strictEqual(jwt.verify(token, publicHex, { algorithms: ['HS256'] }).valid, true);
+      });
+
+      it('should check exp and nbf with leeway', () => {
+        const options = { algorithms: ['HS256'] as JwtAlgorithm[] };
+        const expired = jwt.sign({ exp: now - 10 }, 'secret');
+        assert.strictEqual(jwt.verify(expired, 'secret', options).reason, 'timestamp_expired');
+        assert.strictEqual(jwt.verify(expired, 'secret', { ...options, leeway: 30 }).valid, true);
+
+        const early = jwt.sign({ nbf: now + 10 }, 'secret');
+        assert.strictEqual(jwt.verify(early, 'secret', options).reason, 'timestamp_in_future');
+        assert.strictEqual(jwt.verify(early, 'secret', { ...options, leeway: 30 }).valid, true);
+
+        assert.strictEqual(jwt.verify(jwt.sign({ exp: 'soon' }, 'secret'), 'secret', options).reason, 'malformed_signature');
+      });
+
+      it('should reject a token on its exp', async () => {
+        const token = jwt.sign({ exp: now }, 'secret');
+        const atExp = { algorithms: ['HS256'] as JwtAlgorithm[], clock: () => now * 1000 };
+        assert.strictEqual(jwt.verify(token, 'secret', atExp).reason, 'timestamp_expired');
+        assert.strictEqual((await jwt.verifyAsync(token, 'secret', atExp)).reason, 'timestamp_expired');
+        assert.strictEqual(jwt.verify(token, 'secret', { ...atExp, clock: () => now * 1000 - 1 }).valid, true);
+        assert.strictEqual(jwt.verify(token, 'secret', { ...atExp, leeway: 1 }).valid, true);
+      });
+
+      it('should check iat against maxAge', () => {
+        const options = { algorithms: ['HS256'] as JwtAlgorithm[], maxAge: 60 };
+        assert.strictEqual(jwt.verify(jwt.sign({ iat: now - 120 }, 'secret'), 'secret', options).reason, 'timestamp_expired');
+        assert.strictEqual(jwt.verify(jwt.sign({ iat: now + 120 }, 'secret'), 'secret', options).reason, 'timestamp_in_future');
+        assert.strictEqual(jwt.verify(jwt.sign({}, 'secret'), 'secret', options).reason, 'invalid_claims');
+      });
+
+      it('should check aud and iss', () => {
+        const token = jwt.sign(claims, 'secret');
+        const options = { algorithms: ['HS256'] as JwtAlgorithm[] };
+        assert.strictEqual(jwt.verify(token, 'secret', { ...options, audience: ['other', 'webhooks'] }).valid, true);
+        assert.strictEqual(jwt.verify(token, 'secret', { ...options, audience: 'other' }).reason, 'invalid_claims');
+        assert.strictEqual(jwt.verify(token, 'secret', { ...options, issuer: claims.iss }).valid, true);
+        assert.strictEqual(jwt.verify(token, 'secret', { ...options, issuer: 'https://evil.example.com' }).reason, 'invalid_claims');
+      });
+
+      it('should only accept HS256 tokens from Crystallize', () => {
+        const url = 'https://example.com/webhooks/crystallize';
+        const headers = sign('crystallize', '{}', 'secret', { url });
+        assert.strictEqual(verify('crystallize', '{}', headers, 'secret', { url }), true);
+
+        const [, body] = headers['x-crystallize-signature'].split('.');
+        const hs512 = jwt.sign(JSON.parse(Buffer.from(body, 'base64url').toString()), 'secret', { algorithm: 'HS512' });
+        assert.strictEqual(verifyDetailed('crystallize', '{}', hs512, 'secret', { url }).reason, 'invalid_claims');
+      });
+
+      it('should reject malformed tokens', () => {
+        const options = { algorithms: ['HS256'] as JwtAlgorithm[] };
+        assert.strictEqual(jwt.verify('a.b', 'secret', options).reason, 'malformed_signature');
+        assert.strictEqual(jwt.verify('e30.e30.!!', 'secret', options).reason, 'malformed_signature');
+        assert.strictEqual(jwt.verify('', 'secret', options).reason, 'missing_header');
+      });
+    });
+
+    describe('createKeySet', () => {
+      const rsaPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const rotatedPair = generateKeyPairSync('rsa', { modulusLength: 2048 });
+      const ecPair = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const edPair = generateKeyPairSync('ed25519');
+      const pkcs8 = (key: KeyObject) => key.export({ type: 'pkcs8', format: 'pem' }).toString();
+      const toJwk = (key: KeyObject, kid: string, extra: Partial<JsonWebKey> = {}) =>
+        ({ ...key.export({ format: 'jwk' }), kid, ...extra }) as JsonWebKey;
+
+      const jwks = {
+        keys: [
+          toJwk(rsaPair.publicKey, 'rsa-1', { use: 'sig', alg: 'RS256' }),
+          toJwk(rotatedPair.publicKey, 'rsa-2'),
+          toJwk(ecPair.publicKey, 'ec-1'),
+          toJwk(edPair.publicKey, 'ed-1'),
+        ],
+      };
+      const options = { algorithms: ['RS256', 'ES256', 'EdDSA'] as JwtAlgorithm[] };
+
+      it('should pick JWT keys from a JWKS document by kid', async () => {
+        const keys = createKeySet(jwks);
+        const cases: [JwtAlgorithm, string, string][] = [
+          ['RS256', pkcs8(rsaPair.privateKey), 'rsa-1'],
+          ['RS256', pkcs8(rotatedPair.privateKey), 'rsa-2'],
+          ['ES256', pkcs8(ecPair.privateKey), 'ec-1'],
+          ['EdDSA', pkcs8(edPair.privateKey), 'ed-1'],
+        ];
+
+        for (const [algorithm, privateKey, kid] of cases) {
+          const token = jwt.sign({ sub: kid }, privateKey, { algorithm, header: { kid } });
+          assert.strictEqual(jwt.verify(token, keys, options).valid, true, kid);
+          assert.strictEqual((await jwt.verifyAsync(token, keys, options)).valid, true, kid);
+        }
+      });
+
+      it('should try every fitting key when the token has no kid', async () => {
+        const token = jwt.sign({}, pkcs8(rotatedPair.privateKey), { algorithm: 'RS256' });
+        assert.strictEqual(jwt.verify(token, createKeySet(jwks), options).valid, true);
+        assert.strictEqual((await jwt.verifyAsync(token, createKeySet(jwks), options)).valid, true);
+      });
+
+      it('should reject unknown kids and keys that do not fit the algorithm', async () => {
+        const keys = createKeySet(jwks);
+        const sign = (kid: string) => jwt.sign({}, pkcs8(rsaPair.privateKey), { algorithm: 'RS256', header: { kid } });
+
+        assert.strictEqual(jwt.verify(sign('unknown'), keys, options).reason, 'invalid_key');
+        assert.strictEqual(jwt.verify(sign('ec-1'), keys, options).reason, 'invalid_key');
+        assert.strictEqual(jwt.verify(sign('rsa-2'), keys, options).reason, 'signature_mismatch');
+        assert.strictEqual((await jwt.verifyAsync(sign('rsa-2'), keys, options)).reason, 'signature_mismatch');
+
+        // The key is restricted to RS256
+        const ps256 = jwt.sign({}, pkcs8(rsaPair.privateKey), { algorithm: 'PS256', header: { kid: 'rsa-1' } });
+        assert.strictEqual(jwt.verify(ps256, keys, { algorithms: ['PS256'] }).reason, 'invalid_key');
+
+        // Key sets hold public keys only
+        const hs256 = jwt.sign({}, 'secret', { header: { kid: 'rsa-1' } });
+        assert.strictEqual(jwt.verify(hs256, keys, { algorithms: ['HS256'] }).reason, 'invalid_key');
+      });
+
+      it('should cache resolved keys for the ttl', async () => {
+        const calls: (string | undefined)[] = [];
+        const resolver = async (kid: string | undefined) => {
+          calls.push(kid);
+          return jwks.keys.find((key) => key.kid === kid);
+        };
+        const token = jwt.sign({}, pkcs8(ecPair.privateKey), { algorithm: 'ES256', header: { kid: 'ec-1' } });
+
+        const keys = createKeySet(resolver);
+        assert.throws(() => jwt.verify(token, keys, options), /async verifiers/);
+
+        const results = await Promise.all([jwt.verifyAsync(token, keys, options), jwt.verifyAsync(token, keys, options)]);
+        assert.deepStrictEqual(results.map((result) => result.valid), [true, true]);
+        assert.strictEqual(jwt.verify(token, keys, options).valid, true);
+        assert.deepStrictEqual(calls, ['ec-1']);
+
+        // Unknown kids are looked up again
+        const unknown = jwt.sign({}, pkcs8(ecPair.privateKey), { algorithm: 'ES256', header: { kid: 'ec-2' } });
+        assert.strictEqual((await jwt.verifyAsync(unknown, keys, options)).reason, 'invalid_key');
+        assert.strictEqual((await jwt.verifyAsync(unknown, keys, options)).reason, 'invalid_key');
+        assert.deepStrictEqual(calls, ['ec-1', 'ec-2', 'ec-2']);
+
+        const uncached = createKeySet(resolver, { ttl: 0 });
+        await jwt.verifyAsync(token, uncached, options);
+        await jwt.verifyAsync(token, uncached, options);
+        assert.strictEqual(calls.length, 5);
+      });
+
+      it('should pass on resolver errors without caching them', async () => {
+        let fail = true;
+        const keys = createKeySet(async () => {
+          if (fail) {
+            throw new Error('JWKS endpoint unavailable');
+          }
+          return jwks.keys;
+        });
+        const token = jwt.sign({}, pkcs8(rsaPair.privateKey), { algorithm: 'RS256', header: { kid: 'rsa-1' } });
+
+        await assert.rejects(jwt.verifyAsync(token, keys, options), /unavailable/);
+        fail = false;
+        assert.strictEqual((await jwt.verifyAsync(token, keys, options)).valid, true);
+      });
+
+      it('should select ed25519 and rsa keys by the kid option', async () => {
+        const keys = createKeySet(jwks);
+        const message = 'timestamp.body';
+
+        const edSignature = cryptoSign(null, Buffer.from(message), edPair.privateKey).toString('hex');
+        assert.strictEqual(ed25519.verify(message, edSignature, keys, { kid: 'ed-1' }), true);
+        assert.strictEqual(ed25519.verify(message, edSignature, keys), true);
+        assert.strictEqual(ed25519.verify(message, edSignature, keys, { kid: 'rsa-1' }), false);
+        assert.strictEqual(await ed25519.verifyAsync(message, edSignature, keys, { kid: 'ed-1' }), true);
+
+        const rsaSignature = createSign('RSA-SHA256').update(message).sign(rotatedPair.privateKey, 'base64');
+        assert.strictEqual(rsa.verify(message, rsaSignature, keys, { kid: 'rsa-2' }), true);
+        assert.strictEqual(rsa.verify(message, rsaSignature, keys), true);
+        assert.strictEqual(rsa.verify(message, rsaSignature, keys, { kid: 'rsa-1' }), false);
+        assert.strictEqual(await rsa.verifyAsync(message, rsaSignature, keys, { kid: 'rsa-2' }), true);
+        assert.strictEqual(await rsa.verifyAsync(message, rsaSignature, keys, { kid: 'rsa-1' }), false);
+      });
+    });
   });
 
   describe('Header Helpers', () => {
@@ -1,9 +1,11 @@
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/edge.ts', 'src/testing.ts', 'src/express.ts', 'src/fastify.ts', 'src/bin.ts'],
   format: ['cjs', 'esm'],
   dts: true,
   clean: true,
   sourcemap: true,
+  // Split the CommonJS build too, so the subpath entries share one registry and configuration with the main entry
+  splitting: true,
 });